@@ -1,9 +1,22 @@
 import * as vscode from 'vscode';
 import { Environment } from './Environment';
-import { MarkdownHeading, MarkdownLink, MarkdownLinkDef, MarkdownLinkRef, MarkdownParsingResult } from './MarkdownParser';
+import { MarkdownHeading, MarkdownLink, MarkdownLinkDef, MarkdownLinkRef, TextRange } from './MarkdownParser';
 import { performance } from 'perf_hooks';
 import { LinkCheckResult, LinkSourceDocument, ParsedLinkedDocument } from './LinkChecker';
-import { Slug } from './slugify';
+import { ParsedDocument } from './ParsedDocument';
+import { githubSlugifier, Slug, Slugifier } from './slugify';
+import { filterSuppressedDiagnostics, gatherFootnoteDiagnostics, gatherLinkDiagnostics, gatherLinkRefDiagnostics, getUnusedLinkDefs, LinkDiagnostic } from './LinkDiagnostics';
+import { diagnosticSource, toVscodeDiagnostic, toVscodeRange, toVscodeUri } from './vscodeConverters';
+import { disableNextLineDirective, formatSuppressionComment, LinkSuppressions } from './suppressions';
+import { getSlugRenames, SlugRename } from './headingRenames';
+import { getMovedLinkAddress } from './fileMoves';
+import { findSimilarFiles } from './similarFiles';
+import { createLcsMeasure } from './fuzzyMatch';
+import { generateLinkRefName, getLinkDefDestination, organizeLinkDefs } from './linkRefs';
+import { URI } from 'vscode-uri';
+
+export const recheckLinkCommand = "mdLinkChecker.recheckLink";
+export const organizeLinkDefsCodeActionKind = vscode.CodeActionKind.Source.append("organizeLinkDefinitions");
 
 export interface DocumentObservable {
     subscribe(startingDocumentVersion: number | undefined, handler: () => void): () => void;
@@ -26,7 +39,7 @@ export class DocumentState {
         this.linkSourceDocument = {
             uri: document.uri,
             get workspaceFolder() {
-                return getWorkspaceFolder(document);
+                return getWorkspaceFolder(document.uri);
             },
             tryGetParsedDocument: (uri) => {
                 if (uri.toString() === document.uri.toString()) {
@@ -56,7 +69,7 @@ export class DocumentState {
         this.linkCache.clear();
     }
 
-    parseDocument(): ParsedLinkedDocument {
+    parseDocument(): ParsedDocument {
         return this.parseDocumentCore();
     }
 
@@ -70,25 +83,15 @@ export class DocumentState {
             return prevParsed;
         } else {
             // parsing should be synced with documentVersion
-            const parsingResult = this.env.parser.parseDocument(
-                this.document,
-                {
-                    parseLinks: true,
-                    parseHeadings: true,
-                    parseLinkDefs: true,
-                    parseLinkRefs: true,
-                }
-            );
+            const parsingResult = this.env.parser.parseDocument(this.document, {
+                ...ParsedDocument.parsingOptions,
+                slugifier: this.env.getSlugifier(this.document.uri),
+            });
 
-            const parsed = this.parsed = new ParsedDocument(
+            const parsed = this.parsed = ParsedDocument.fromParsingResult(
                 this.document.uri,
                 documentVersion,
-                parsingResult.headings!,
-                parsingResult.links!,
-                parsingResult.linkRefs!,
-                parsingResult.linkDefs!,
-                parsingResult.lastNonEmptyLine,
-                parsingResult.endsWithLinkDef,
+                parsingResult
             );
 
             if (sluggedHeadersChanged(prevParsed, parsed)) {
@@ -108,6 +111,7 @@ export class DocumentState {
         // to efficiently handle the case of multiple scheduled processings
         this.resetCaches ||= resetCaches;
         this.lastProcessing = continueWith(this.lastProcessing, this.processDocumentSeq.bind(this));
+        return this.lastProcessing;
     }
 
     private lastProcessedDocument?: ParsedDocument;
@@ -115,6 +119,11 @@ export class DocumentState {
     private async processDocumentSeq() {
 
         if (this.resetCaches) {
+            // web link results are shared between documents,
+            // so only the links of this document are forced to be rechecked
+            for (const link of this.linkCache.keys()) {
+                this.env.webLinkCache.invalidate(link);
+            }
             this.disposeLinkCache();
             this.parsed = undefined;
             this.lastProcessedDocument = undefined;
@@ -144,9 +153,10 @@ export class DocumentState {
             }
         }
 
-        const diag: vscode.Diagnostic[] = [];
+        const diag: LinkDiagnostic[] = [];
 
-        this.checkLinkRefs(diag, parsed);
+        gatherLinkRefDiagnostics(diag, parsed.linkRefs, parsed.linkDefs, this.env.configuration);
+        gatherFootnoteDiagnostics(diag, parsed.footnoteRefs, parsed.footnoteDefs, this.env.configuration);
 
         const results = await Promise.all(parsed.links.map(
             l => this.checkLinkWithCache(l.address, parsed)
@@ -163,9 +173,12 @@ export class DocumentState {
             }
         }
 
-        this.gatherDiagnostics(diag, parsed.links, results);
+        gatherLinkDiagnostics(diag, parsed.links, results, this.env.configuration);
 
-        this.env.diagnostics.set(this.document.uri, diag);
+        this.env.diagnostics.set(
+            this.document.uri,
+            filterSuppressedDiagnostics(diag, parsed.comments).map(d => toVscodeDiagnostic(d, this.document.uri))
+        );
 
         this.lastProcessedDocument = parsed;
 
@@ -185,7 +198,7 @@ export class DocumentState {
             }
 
             const now = performance.now();
-            const ttl = (this.env.configuration.cacheTtl ?? 5 * 60) * 1000;
+            const ttl = this.env.cacheTtl;
             if (now - cacheEntry.lastCheckTime <= ttl) {
                 return cacheEntry.resultPromise;
             }
@@ -203,13 +216,22 @@ export class DocumentState {
             result => {
                 cacheEntry!.lastCheckTime = performance.now();
                 cacheEntry!.documentHeadings = result.documentHeadings;
+                if (result.documentHeadings && result.uri) {
+                    cacheEntry!.documentSlugifier = this.env.getSlugifier(toVscodeUri(result.uri.with({ fragment: "" })));
+                }
+                cacheEntry!.permanentRedirectUrl = result.permanentRedirectUrl;
+                cacheEntry!.webAnchors = result.webAnchors;
+                cacheEntry!.actualCaseUri = result.actualCaseUri;
+                if (result.checkType === "file" && !result.pathFound && result.uri?.scheme === "file") {
+                    cacheEntry!.missingFileUri = result.uri.with({ fragment: "", query: "" });
+                }
 
                 let version;
                 let observable;
                 if (result.linkedDocument) {
 
                     if (result.linkedDocument.uri.toString() !== parsedDoc.uri.toString()) {
-                        observable = this.documentObservableProvider(result.linkedDocument.uri);
+                        observable = this.documentObservableProvider(toVscodeUri(result.linkedDocument.uri));
                         version = result.linkedDocument.documentVersion;
                     } else {
                         cacheEntry!.localLink = true;
@@ -218,7 +240,7 @@ export class DocumentState {
                 } else {
                     const scheme = result.uri?.scheme;
                     if (scheme === "file" || scheme === "untitled") {
-                        observable = this.documentObservableProvider(result.uri!.with({ fragment: "" }));
+                        observable = this.documentObservableProvider(toVscodeUri(result.uri!.with({ fragment: "" })));
                     }
                 }
 
@@ -250,104 +272,161 @@ export class DocumentState {
     }
 
 
-    private gatherDiagnostics(diag: vscode.Diagnostic[], links: MarkdownLink[], results: Array<LinkCheckResult | undefined>) {
+    /**
+     * Forgets the link check result (including shared web link result) and rechecks the document.
+     */
+    recheckLink(link: string) {
+        this.env.webLinkCache.invalidate(link);
 
-        for (let index = 0; index < links.length; index++) {
-            const res = results[index];
-            if (res) {
-                gather(links[index], res);
-            }
+        const cacheEntry = this.linkCache.get(link);
+        if (cacheEntry) {
+            cacheEntry.linkedDocSubscription?.();
+            this.linkCache.delete(link);
         }
 
-        return diag;
+        this.resetLastProcessed = true;
+        return this.processDocument();
+    }
 
-        function addDiagnostic(link: MarkdownLink, message: string, severity: vscode.DiagnosticSeverity) {
-            diag.push(new vscode.Diagnostic(link.addressRange, message, severity));
-        }
+    async getHover(pos: vscode.Position): Promise<vscode.Hover | undefined> {
+        const parsed = this.parseDocumentCore();
 
-        function gather(link: MarkdownLink, result: LinkCheckResult) {
+        const link = parsed.links.find(l => l.addressRange.contains(pos));
+        if (!link) return undefined;
 
-            const uriStr = result.uri?.scheme === "file" ? result.uri.fsPath : result.uri?.toString();
+        const cacheEntry = this.linkCache.get(link.address);
+        const result = cacheEntry && cacheEntry.lastCheckTime >= 0
+            ? await cacheEntry.resultPromise
+            : undefined;
 
-            if (result.checkType === "none") {
+        // the link, the redirect URL and the request error are not trusted, so they are appended as text
+        const content = new vscode.MarkdownString();
+        const addLine = (markdown: string, text?: string) => {
+            if (content.value.length !== 0) {
+                content.appendMarkdown("  \n");
+            }
 
-                addDiagnostic(link, `Can not check this type of link. Scheme: ${result.uri?.scheme || "not parsed"}`, vscode.DiagnosticSeverity.Information);
+            content.appendMarkdown(markdown);
+            if (text !== undefined) {
+                content.appendText(text);
+            }
+        };
 
-            } else {
+        if (!cacheEntry || !result) {
+            addLine("**Link** is not checked yet");
+        } else if (result.checkType === "ignored" || result.checkType === "none") {
+            addLine(result.checkType === "ignored" ? "**Link** is ignored by the configuration" : "**Link** can not be checked");
+        } else {
+            const passed = result.pathFound && !(result.hasFragment && !result.fragmentFound);
+            addLine(`**Link check** ${passed ? "passed" : "failed"}`);
 
-                if (result.pathFound) {
-                    if (result.hasFragment && !result.fragmentFound) {
-                        addDiagnostic(link, `Document found, but fragment '#${result.uri?.fragment}' check failed.\nResolved link: ${uriStr}`, vscode.DiagnosticSeverity.Error);
-                    } else {
-                        // addDiagnostic(link, `Link check passed.\nResolved link: ${uriStr}`, vscode.DiagnosticSeverity.Hint);
-                    }
-                } else if (result.statusCode === 0) {
-                    //https://github.com/microsoft/vscode/issues/136787
-                    if (result.requestError?.code === "CERT_HAS_EXPIRED") {
-                        addDiagnostic(
-                            link,
-                            `Link check failed.`
-                            + `\nElectron can not validate the certificate.`
-                            + ` It might be related to the bug https://github.com/microsoft/vscode/issues/136787.`
-                            + ` Until vscode upgrades to Electron 16, it is recommended to use setting '"http.systemCertificates": false'`
-                            + `\nResolved link: ${uriStr}\n${result.requestError}`, vscode.DiagnosticSeverity.Warning);
-                    } else {
-                        addDiagnostic(link, `Link check failed.\nResolved link: ${uriStr}\n${result.requestError}`, vscode.DiagnosticSeverity.Error);
-                    }
-                } else {
-                    addDiagnostic(link, `Link check failed. Status: ${result.statusCode}\nResolved link: ${uriStr}`, vscode.DiagnosticSeverity.Error);
-                }
+            if (result.uri) {
+                const uriStr = result.uri.scheme === "file" ? result.uri.fsPath : result.uri.toString();
+                addLine("Resolved: ", uriStr);
+            }
 
-                if (result.countryCode) {
-                    addDiagnostic(link, `Link contains a language reference: ${result.countryCode}`, vscode.DiagnosticSeverity.Warning);
-                }
+            if (result.checkType === "web") {
+                addLine("Status: ", result.statusCode === 0 ? `${result.requestError}` : `${result.statusCode}`);
+            }
+
+            if (result.redirectUrl) {
+                addLine("Redirected to: ", result.redirectUrl);
+            }
 
+            if (result.authScheme) {
+                addLine("Authorization: ", result.authScheme);
             }
+
+            const checkTime = result.checkTime !== undefined
+                ? result.checkTime
+                : Date.now() - (performance.now() - cacheEntry.lastCheckTime);
+
+            addLine(`Checked: ${new Date(checkTime).toLocaleString()}${result.fromCache ? " (cached result)" : ""}`);
         }
 
+        // parentheses of the link address would end the markdown link destination
+        const args = encodeURIComponent(JSON.stringify([this.document.uri.toString(), link.address]))
+            .replace(/[()]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+        addLine(`[Recheck this link](command:${recheckLinkCommand}?${args})`);
+
+        content.isTrusted = { enabledCommands: [recheckLinkCommand] };
+
+        return new vscode.Hover(content, toVscodeRange(link.addressRange));
     }
 
-    private checkLinkRefs(diag: vscode.Diagnostic[], parsedDoc: ParsedDocument) {
+    canRenameHeadingAt(pos: vscode.Position): { range: vscode.Range, placeholder: string } | undefined {
+        const parsed = this.parseDocumentCore();
 
-        const addDiagnostic = (range: vscode.Range, message: string, linkedRange?: vscode.Range, linkedMessage?: string, severity = vscode.DiagnosticSeverity.Error) => {
-            const d = new vscode.Diagnostic(range, message, severity);
-            if (linkedRange && linkedMessage) {
-                d.relatedInformation = [
-                    new vscode.DiagnosticRelatedInformation(new vscode.Location(parsedDoc.uri, linkedRange), linkedMessage)
-                ];
-            }
+        const heading = this.getHeadingAt(parsed, pos);
+        if (!heading) return undefined;
 
-            diag.push(d);
-        };
+        const range = toVscodeRange(heading.titleRange!);
+        return { range, placeholder: this.document.getText(range) };
+    }
 
-        const defSet = new Map<string, MarkdownLinkDef>();
-        for (const def of parsedDoc.linkDefs) {
-            const prev = defSet.get(def.name);
-            if (prev) {
-                addDiagnostic(
-                    def.nameRange,
-                    "Link with this name already defined",
-                    prev.nameRange,
-                    `First definition of '${def.name}'`
-                );
-            } else {
-                defSet.set(def.name, def);
-            }
+    /**
+     * @returns edit of the heading title and slug changes of the document headings caused by the rename.
+     */
+    renameHeadingAt(pos: vscode.Position, newTitle: string): { edit: vscode.WorkspaceEdit, slugRenames: SlugRename[] } | undefined {
+        const parsed = this.parseDocumentCore();
+
+        const heading = this.getHeadingAt(parsed, pos);
+        if (!heading) return undefined;
+
+        const range = toVscodeRange(heading.titleRange!);
+
+        // reparsing the whole document, because duplicate suffixes of the other headings might change
+        const text = this.document.getText();
+        const renamedText = text.substring(0, this.document.offsetAt(range.start))
+            + newTitle
+            + text.substring(this.document.offsetAt(range.end));
+
+        const { headings } = this.env.parser.parseDocument(renamedText, {
+            parseHeadings: true,
+            slugifier: this.env.getSlugifier(this.document.uri),
+        });
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(this.document.uri, range, newTitle);
+
+        return { edit, slugRenames: getSlugRenames(parsed.headings, headings!) };
+    }
+
+    canRenameFootnoteAt(pos: vscode.Position): { range: vscode.Range, placeholder: string } | undefined {
+        const parsed = this.parseDocumentCore();
+
+        const footnote = this.getFootnoteAt(parsed, pos);
+        if (!footnote) return undefined;
+
+        return { range: toVscodeRange(footnote.nameRange), placeholder: footnote.name };
+    }
+
+    renameFootnoteAt(pos: vscode.Position, newLabel: string): vscode.WorkspaceEdit | undefined {
+        const parsed = this.parseDocumentCore();
+
+        const footnote = this.getFootnoteAt(parsed, pos);
+        if (!footnote) return undefined;
+
+        // the label might be typed with the caret
+        const label = newLabel.startsWith("^") ? newLabel.substring(1) : newLabel;
+        if (!/^[^\]\s]+$/.test(label)) {
+            throw new Error("Footnote label can not be empty or contain whitespaces and ']'");
         }
 
-        for (const ref of parsedDoc.linkRefs) {
-            const def = defSet.get(ref.name);
-            if (!def) {
-                addDiagnostic(
-                    ref.nameRange,
-                    `Link definition for '${ref.name}' not found.\nIf this is not a link reference, consider bracket escaping '\\[' or using code block.`,
-                );
+        const edit = new vscode.WorkspaceEdit();
+        for (const item of [...parsed.footnoteRefs, ...parsed.footnoteDefs]) {
+            if (item.name === footnote.name) {
+                edit.replace(this.document.uri, toVscodeRange(item.nameRange), label);
             }
         }
 
-        return diag;
+        return edit;
     }
 
+    private getFootnoteAt(parsed: ParsedDocument, pos: vscode.Position) {
+        return parsed.footnoteRefs.find(r => r.nameRange.contains(pos))
+            ?? parsed.footnoteDefs.find(d => d.nameRange.contains(pos));
+    }
 
     canRenameLinkRefNameAt(pos: vscode.Position): { range: vscode.Range, placeholder: string } | undefined {
         const parsed = this.parseDocumentCore();
@@ -355,12 +434,12 @@ export class DocumentState {
 
         const link = this.getInlineLinkAddressAt(parsed, pos);
         if (link) {
-            return { range: link.addressRange, placeholder: 'link-ref-name' };
+            return { range: toVscodeRange(link.addressRange), placeholder: 'link-ref-name' };
         }
 
         const linkRefOrDef = this.getLinkRefNameAt(parsed, pos) ?? this.getLinkDefNameAt(parsed, pos);
         if (linkRefOrDef) {
-            return { range: linkRefOrDef.nameRange, placeholder: linkRefOrDef.name };
+            return { range: toVscodeRange(linkRefOrDef.nameRange), placeholder: linkRefOrDef.name };
         }
 
         return undefined;
@@ -376,23 +455,12 @@ export class DocumentState {
 
         if (link) {
 
-            const edit = new vscode.WorkspaceEdit();
+            const destinationRange = this.getInlineLinkDestinationRange(link);
+            if (!destinationRange) return undefined;
 
-            const replaceRange = new vscode.Range(
-                link.addressRange.start.translate(undefined, -1),
-                link.addressRange.end.translate(undefined, 1)
-            );
-
-            edit.replace(docUri, replaceRange, `[${linkRefName}]`);
-
-            const line = this.document.lineAt(parsed.lastNonEmptyLine === -1
-                ? (this.document.lineCount - 1)
-                : parsed.lastNonEmptyLine
-            );
-
-            const prefix = parsed.endsWithLinkDef ? "" : "\n";
-
-            edit.insert(docUri, line.range.end, `${prefix}\n[${linkRefName}]: ${link.address}`);
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(docUri, destinationRange, `[${linkRefName}]`);
+            this.insertLinkDefs(edit, parsed, [`[${linkRefName}]: ${this.getInlineLinkDestination(destinationRange)}`]);
 
             return edit;
         }
@@ -403,13 +471,13 @@ export class DocumentState {
 
             for (const linkRef of parsed.linkRefs) {
                 if (linkRef.name === linkRefOrDef.name) {
-                    edit.replace(docUri, linkRef.nameRange, linkRefName);
+                    edit.replace(docUri, toVscodeRange(linkRef.nameRange), linkRefName);
                 }
             }
 
             for (const linkDef of parsed.linkDefs) {
                 if (linkDef.name === linkRefOrDef.name) {
-                    edit.replace(docUri, linkDef.nameRange, linkRefName);
+                    edit.replace(docUri, toVscodeRange(linkDef.nameRange), linkRefName);
                 }
             }
 
@@ -419,6 +487,187 @@ export class DocumentState {
         return undefined;
     }
 
+    /**
+     * Replaces the link reference with the inline link to the definition destination.
+     * The definition is removed if it is not used anymore.
+     */
+    inlineLinkRefAt(pos: vscode.Position): vscode.WorkspaceEdit | undefined {
+        const parsed = this.parseDocumentCore();
+
+        const linkRef = this.getLinkRefNameAt(parsed, pos);
+        if (!linkRef) return undefined;
+
+        const linkDef = parsed.linkDefs.find(d => d.name === linkRef.name);
+        const suffixRange = this.getLinkRefSuffixRange(linkRef);
+        if (!linkDef || !suffixRange) return undefined;
+
+        const destination = getLinkDefDestination(linkDef, this.document.getText(toVscodeRange(linkDef.range)));
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(this.document.uri, suffixRange, `(${destination})`);
+
+        if (!parsed.linkRefs.some(r => r !== linkRef && r.name === linkRef.name)) {
+            this.deleteLinkDefs(edit, parsed.linkDefs.filter(d => d.name === linkRef.name));
+        }
+
+        return edit;
+    }
+
+    /**
+     * Replaces all the inline links of the document with the link references,
+     * the definitions get the names generated from the link addresses.
+     * Links with the same destination share the definition.
+     */
+    extractInlineLinks(): vscode.WorkspaceEdit | undefined {
+        const parsed = this.parseDocumentCore();
+
+        const usedNames = new Set(parsed.linkDefs.map(d => d.name.toLowerCase()));
+        const nameByDestination = new Map<string, string>();
+        for (const linkDef of parsed.linkDefs) {
+            const destination = getLinkDefDestination(linkDef, this.document.getText(toVscodeRange(linkDef.range)));
+            if (!nameByDestination.has(destination)) {
+                nameByDestination.set(destination, linkDef.name);
+            }
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const newDefs: string[] = [];
+
+        for (const link of parsed.links) {
+            if (!link.isInline) continue;
+
+            const destinationRange = this.getInlineLinkDestinationRange(link);
+            if (!destinationRange) continue;
+
+            const destination = this.getInlineLinkDestination(destinationRange);
+            let name = nameByDestination.get(destination);
+            if (name === undefined) {
+                name = generateLinkRefName(link.address, usedNames);
+                nameByDestination.set(destination, name);
+                newDefs.push(`[${name}]: ${destination}`);
+            }
+
+            edit.replace(this.document.uri, destinationRange, `[${name}]`);
+        }
+
+        if (edit.size === 0) return undefined;
+
+        if (newDefs.length !== 0) {
+            this.insertLinkDefs(edit, parsed, newDefs);
+        }
+
+        return edit;
+    }
+
+    /**
+     * Sorts the link definitions by name and removes the duplicates.
+     * All the definitions are gathered in place of the last one.
+     */
+    organizeLinkDefs(): vscode.WorkspaceEdit | undefined {
+        const parsed = this.parseDocumentCore();
+        if (parsed.linkDefs.length === 0) return undefined;
+
+        const { sorted, renames } = organizeLinkDefs(parsed.linkDefs.map(def => ({
+            def,
+            destination: getLinkDefDestination(def, this.document.getText(toVscodeRange(def.range))),
+        })));
+
+        const docUri = this.document.uri;
+        const edit = new vscode.WorkspaceEdit();
+
+        for (const linkRef of parsed.linkRefs) {
+            const newName = renames.get(linkRef.name);
+            if (newName === undefined) continue;
+
+            const suffixRange = this.getLinkRefSuffixRange(linkRef);
+            if (!suffixRange) continue;
+
+            if (suffixRange.isEmpty || this.document.getText(suffixRange) === "[]") {
+                // the text of collapsed and shortcut references is the name, so the explicit name is added instead
+                edit.replace(docUri, suffixRange, `[${newName}]`);
+            } else {
+                edit.replace(docUri, toVscodeRange(linkRef.nameRange), newName);
+            }
+        }
+
+        const lastDef = parsed.linkDefs[parsed.linkDefs.length - 1];
+        this.deleteLinkDefs(edit, parsed.linkDefs.filter(d => d !== lastDef));
+        edit.replace(
+            docUri,
+            this.getLinkDefLinesRange(lastDef),
+            sorted.map(({ def, destination }) => `[${def.name}]: ${destination}`).join("\n")
+        );
+
+        return edit;
+    }
+
+    /**
+     * @returns range of the inline link destination including the parentheses and the title (`(address "title")`),
+     * undefined if the link syntax is not recognized.
+     */
+    private getInlineLinkDestinationRange(link: MarkdownLink): vscode.Range | undefined {
+        const { start, end } = link.addressRange;
+        if (start.line !== end.line) return undefined;
+
+        const text = this.document.lineAt(start.line).text;
+
+        let open = start.character - 1;
+        let close = end.character;
+        if (text[open] === '<' && text[close] === '>') {
+            --open;
+            ++close;
+        }
+
+        if (text[open] !== '(') return undefined;
+
+        const tail = text.substring(close).match(/^(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/);
+        if (!tail) return undefined;
+
+        return new vscode.Range(start.line, open, start.line, close + tail[0].length);
+    }
+
+    private getInlineLinkDestination(destinationRange: vscode.Range) {
+        const text = this.document.getText(destinationRange);
+        return text.substring(1, text.length - 1).trim();
+    }
+
+    /**
+     * @returns range after the link reference text to be replaced with the inline destination:
+     * `[name]` of the full reference, `[]` of the collapsed one and empty range after the shortcut one.
+     */
+    private getLinkRefSuffixRange(linkRef: MarkdownLinkRef): vscode.Range | undefined {
+        const { start, end } = linkRef.nameRange;
+        if (start.line !== end.line) return undefined;
+
+        const text = this.document.lineAt(start.line).text;
+        if (text[end.character] !== ']') return undefined;
+
+        const line = start.line;
+        if (text.substring(start.character - 2, start.character) === '][') {
+            return new vscode.Range(line, start.character - 1, line, end.character + 1);
+        } else if (text.substring(end.character + 1, end.character + 3) === '[]') {
+            return new vscode.Range(line, end.character + 1, line, end.character + 3);
+        } else {
+            return new vscode.Range(line, end.character + 1, line, end.character + 1);
+        }
+    }
+
+    /**
+     * Appends the link definitions after the last non-empty line of the document,
+     * separating them from the text with an empty line.
+     */
+    private insertLinkDefs(edit: vscode.WorkspaceEdit, parsed: ParsedDocument, defLines: string[]) {
+
+        const line = this.document.lineAt(parsed.lastNonEmptyLine === -1
+            ? (this.document.lineCount - 1)
+            : parsed.lastNonEmptyLine
+        );
+
+        const prefix = parsed.endsWithLinkDef ? "" : "\n";
+
+        edit.insert(this.document.uri, line.range.end, `${prefix}\n${defLines.join("\n")}`);
+    }
+
     private getLinkRefNameAt(parsed: ParsedDocument, pos: vscode.Position) {
 
         for (const linkRef of parsed.linkRefs) {
@@ -441,6 +690,17 @@ export class DocumentState {
         return undefined;
     }
 
+    private getHeadingAt(parsed: ParsedDocument, pos: vscode.Position): MarkdownHeading | undefined {
+
+        for (const heading of parsed.headings) {
+            if (heading.titleRange?.contains(pos)) {
+                return heading;
+            }
+        }
+
+        return undefined;
+    }
+
     private getInlineLinkAddressAt(parsed: ParsedDocument, pos: vscode.Position): MarkdownLink | undefined {
 
         for (const link of parsed.links) {
@@ -452,112 +712,332 @@ export class DocumentState {
         return undefined;
     }
 
-    getCodeActions(range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] | undefined {
+    async getCodeActions(range: vscode.Range, context: vscode.CodeActionContext): Promise<vscode.CodeAction[] | undefined> {
 
         const parsed = this.parseDocumentCore();
 
+        const actions = [];
+
         for (const link of parsed.links) {
             if (link.addressRange.contains(range.end)) {
 
                 const cacheEntry = this.linkCache.get(link.address);
+                // the fixes rebuild the link from the address that differs from the text of transformed raw links
+                if (cacheEntry && link.rawAddress === undefined) {
+                    actions.push(
+                        ...this.getPathCaseCodeActions(link, cacheEntry),
+                        ...await this.getSimilarFileCodeActions(link, cacheEntry),
+                        ...this.getRedirectCodeActions(link, cacheEntry),
+                        ...this.getFragmentCodeActions(link, cacheEntry),
+                    );
+                }
 
-                if (!cacheEntry?.documentHeadings) return undefined;
+                break;
+            }
+        }
 
-                const prefixIndex = link.address.indexOf('#');
-                if (prefixIndex === -1) return undefined;
+        actions.push(...this.getLinkRefCodeActions(parsed, context));
+        actions.push(...this.getLinkRefRefactorings(parsed, range));
+        actions.push(...this.getSuppressionCodeActions(context));
 
-                const prefix = link.address.substring(0, prefixIndex + 1);
+        return actions.length !== 0 ? actions : undefined;
+    }
 
-                const currentNormName = toSearchItem(this.env.slugifier.fromHeading(link.address.slice(prefixIndex + 1)));
+    private getLinkRefCodeActions(parsed: ParsedDocument, context: vscode.CodeActionContext): vscode.CodeAction[] {
 
-                let lcsRow1 = Array<number>(currentNormName.length + 1);
-                let lcsRow2 = Array<number>(currentNormName.length + 1).fill(0);
+        const diagnosticRanges = context.diagnostics
+            .filter(d => d.source === diagnosticSource)
+            .map(d => d.range);
 
-                function longestCommonSubsequence(s1: string) {
-                    const s2 = currentNormName;
+        const isDiagnosed = (range: TextRange) => diagnosticRanges.some(r => r.isEqual(toVscodeRange(range)));
 
-                    if (s1.length * s2.length > 10**6) return 0;
+        const actions = [];
 
-                    lcsRow1.fill(0);
-                    for (let i = 0; i < s1.length; i++) {
-                        const c1 = s1[i];
+        const suppressions = new LinkSuppressions(parsed.comments);
+        const unusedDefs = getUnusedLinkDefs(parsed.linkRefs, parsed.linkDefs)
+            .filter(d => !suppressions.isSuppressed(d.nameRange.start.line));
 
-                        for (let j = 1; j <= s2.length; j++) {
-                            const c2 = s2[j - 1];
+        for (const linkDef of unusedDefs) {
+            if (isDiagnosed(linkDef.nameRange)) {
+                const action = new vscode.CodeAction(
+                    `Remove unused link definition '${linkDef.name}'`,
+                    vscode.CodeActionKind.QuickFix
+                );
 
-                            let ans = Math.max(lcsRow1[j], lcsRow2[j - 1]);
-                            if (c2 === c1) {
-                                ans = Math.max(ans, lcsRow1[j - 1] + 1);
-                            }
+                action.isPreferred = true;
+                action.edit = new vscode.WorkspaceEdit();
+                this.deleteLinkDefs(action.edit, [linkDef]);
+                actions.push(action);
+            }
+        }
 
-                            lcsRow2[j] = ans;
-                        }
+        if (actions.length !== 0 && unusedDefs.length > 1) {
+            const action = new vscode.CodeAction(
+                `Remove all unused link definitions`,
+                vscode.CodeActionKind.QuickFix
+            );
 
-                        // swap
-                        [lcsRow1, lcsRow2] = [lcsRow2, lcsRow1];
-                    }
+            action.edit = new vscode.WorkspaceEdit();
+            this.deleteLinkDefs(action.edit, unusedDefs);
+            actions.push(action);
+        }
 
-                    return lcsRow1[s2.length];
-                }
+        const definedNames = new Set(parsed.linkDefs.map(d => d.name));
+        const stubNames = new Set<string>();
+        for (const linkRef of parsed.linkRefs) {
+            if (!definedNames.has(linkRef.name) && !stubNames.has(linkRef.name) && isDiagnosed(linkRef.nameRange)) {
+                stubNames.add(linkRef.name);
 
-                const actions = cacheEntry.documentHeadings
-                    .map(h => {
-                        const newText = prefix + this.env.slugifier.fromHeadingNoEncoding(h.title);
+                const action = new vscode.CodeAction(
+                    `Add link definition for '${linkRef.name}'`,
+                    vscode.CodeActionKind.QuickFix
+                );
 
-                        const action = new vscode.CodeAction(
-                            newText,
-                            vscode.CodeActionKind.QuickFix
-                        );
+                action.edit = new vscode.WorkspaceEdit();
+                this.insertLinkDefs(action.edit, parsed, [`[${linkRef.name}]: url`]);
+                actions.push(action);
+            }
+        }
 
-                        action.edit = new vscode.WorkspaceEdit();
-                        action.edit.replace(parsed.uri, link.addressRange, newText);
+        return actions;
+    }
 
-                        const normName = toSearchItem(h.slugged);
-                        const lcs = longestCommonSubsequence(normName) / currentNormName.length;
+    private getLinkRefRefactorings(parsed: ParsedDocument, range: vscode.Range): vscode.CodeAction[] {
 
-                        // this value is bad only for long current values and short suggestions
-                        const lenShortage = Math.max(0, currentNormName.length - normName.length) / currentNormName.length;
+        const actions = [];
 
-                        return { action, lcs, lenShortage };
-                    });
+        const inlineEdit = this.inlineLinkRefAt(range.start);
+        if (inlineEdit) {
+            const action = new vscode.CodeAction(
+                `Convert to inline link`,
+                vscode.CodeActionKind.RefactorInline
+            );
+
+            action.edit = inlineEdit;
+            actions.push(action);
+        }
+
+        if (this.getInlineLinkAddressAt(parsed, range.start)) {
+            const action = new vscode.CodeAction(
+                `Extract all inline links to link references`,
+                vscode.CodeActionKind.RefactorExtract
+            );
+
+            action.command = { command: "mdLinkChecker.extractInlineLinks", title: action.title };
+            actions.push(action);
+        }
+
+        if (parsed.linkDefs.length !== 0) {
+            const action = new vscode.CodeAction(
+                `Sort and deduplicate link definitions`,
+                organizeLinkDefsCodeActionKind
+            );
+
+            action.command = { command: "mdLinkChecker.organizeLinkDefinitions", title: action.title };
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
+    private deleteLinkDefs(edit: vscode.WorkspaceEdit, linkDefs: MarkdownLinkDef[]) {
+        for (const linkDef of linkDefs) {
+            const range = this.getLinkDefLinesRange(linkDef);
+            edit.delete(this.document.uri, range.with({ end: this.document.lineAt(range.end.line).rangeIncludingLineBreak.end }));
+        }
+    }
+
+    /**
+     * @returns range of the whole lines of the definition (the title might be on the next lines).
+     */
+    private getLinkDefLinesRange(linkDef: MarkdownLinkDef) {
+        return new vscode.Range(
+            this.document.lineAt(linkDef.range.start.line).range.start,
+            this.document.lineAt(linkDef.range.end.line).range.end
+        );
+    }
+
+    /**
+     * @returns true if the line belongs to a GFM table: a paragraph-like block
+     * where the header row is followed by the delimiter row (like `--- | :---:`).
+     */
+    private isTableRow(lineIndex: number) {
+        const isBlank = (i: number) => this.document.lineAt(i).isEmptyOrWhitespace;
+
+        let blockStart = lineIndex;
+        while (blockStart > 0 && !isBlank(blockStart - 1)) {
+            --blockStart;
+        }
 
-                return actions
-                    .filter(r => r.lenShortage < 0.5 && r.lcs >= 0.5)
-                    .sort((a, b) => b.lcs - a.lcs)
-                    .map(r => r.action);
+        const lastCandidate = Math.min(lineIndex + 1, this.document.lineCount - 1);
+        for (let i = blockStart + 1; i <= lastCandidate && !isBlank(i); i++) {
+            if (isTableDelimiterRow(this.document.lineAt(i).text) && this.document.lineAt(i - 1).text.includes("|")) {
+                return lineIndex >= i - 1;
             }
         }
 
+        return false;
+    }
+
+    private getSuppressionCodeActions(context: vscode.CodeActionContext): vscode.CodeAction[] {
+
+        const lines = new Set(context.diagnostics
+            .filter(d => d.source === diagnosticSource)
+            .map(d => d.range.start.line)
+        );
+
+        // the comment line inserted between the rows would break the table
+        return [...lines].filter(lineIndex => !this.isTableRow(lineIndex)).map(lineIndex => {
+            const line = this.document.lineAt(lineIndex);
+            const indentation = line.text.substring(0, line.firstNonWhitespaceCharacterIndex);
+
+            const action = new vscode.CodeAction(
+                `Suppress link diagnostics for line ${lineIndex + 1}`,
+                vscode.CodeActionKind.QuickFix
+            );
+
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.insert(
+                this.document.uri,
+                line.range.start,
+                `${indentation}${formatSuppressionComment(disableNextLineDirective)}\n`
+            );
+
+            return action;
+        });
+    }
+
+    private getPathCaseCodeActions(link: MarkdownLink, cacheEntry: LinkCacheEntry): vscode.CodeAction[] {
+
+        const actualUri = cacheEntry.actualCaseUri;
+        if (!actualUri) return [];
+
+        const actualPath = actualUri.fsPath.toLowerCase();
+        const newText = getMovedLinkAddress(
+            link.address,
+            this.linkSourceDocument,
+            this.document.uri,
+            (uri) => uri.fsPath.toLowerCase() === actualPath ? actualUri : undefined
+        );
+
+        if (!newText || newText === link.address) return [];
+
+        const action = new vscode.CodeAction(
+            `Correct the path case: ${newText}`,
+            vscode.CodeActionKind.QuickFix
+        );
+
+        action.isPreferred = true;
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(this.document.uri, toVscodeRange(link.addressRange), newText);
+
+        return [action];
+    }
+
+    private async getSimilarFileCodeActions(link: MarkdownLink, cacheEntry: LinkCacheEntry): Promise<vscode.CodeAction[]> {
+
+        const missingFileUri = cacheEntry.missingFileUri;
+        if (!missingFileUri) return [];
+
+        // the files are searched only when the quick fixes are requested, the result lives until the link recheck
+        cacheEntry.similarFileUris ??= findSimilarFiles(missingFileUri.fsPath, this.linkSourceDocument.workspaceFolder?.fsPath)
+            .then(files => files.map(f => URI.file(f)));
+
+        const actions = [];
+        for (const similarUri of await cacheEntry.similarFileUris) {
+            // keeps the link style (relative or root-relative, encoding, fragment)
+            const newText = getMovedLinkAddress(link.address, this.linkSourceDocument, this.document.uri, () => similarUri);
+            if (!newText || newText === link.address) continue;
+
+            const action = new vscode.CodeAction(
+                `Did you mean: ${newText}`,
+                vscode.CodeActionKind.QuickFix
+            );
+
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(this.document.uri, toVscodeRange(link.addressRange), newText);
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
+    private getRedirectCodeActions(link: MarkdownLink, cacheEntry: LinkCacheEntry): vscode.CodeAction[] {
+
+        // the action follows the redirect diagnostic that might be turned off
+        const newText = cacheEntry.permanentRedirectUrl;
+        if (!newText || this.env.configuration.permanentRedirectSeverity === "none") return [];
+
+        const action = new vscode.CodeAction(
+            `Update to the redirected URL: ${newText}`,
+            vscode.CodeActionKind.QuickFix
+        );
+
+        action.isPreferred = true;
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(this.document.uri, toVscodeRange(link.addressRange), newText);
+
+        return [action];
+    }
+
+    private getFragmentCodeActions(link: MarkdownLink, cacheEntry: LinkCacheEntry): vscode.CodeAction[] {
+
+        if (!cacheEntry.documentHeadings && !cacheEntry.webAnchors) return [];
+
+        const prefixIndex = link.address.indexOf('#');
+        if (prefixIndex === -1) return [];
+
+        const prefix = link.address.substring(0, prefixIndex + 1);
+
+        const slugifier = cacheEntry.documentSlugifier ?? githubSlugifier;
+        const currentNormName = toSearchItem(slugifier.fromHeading(link.address.slice(prefixIndex + 1)));
+
+        const longestCommonSubsequence = createLcsMeasure(currentNormName);
+
         function toSearchItem(slug: Slug) {
             return slug.value.replace(/\-/g, '');
         }
 
+        const candidates = [
+            ...(cacheEntry.documentHeadings ?? []).map(h => ({
+                fragment: h.slug,
+                normName: toSearchItem(h.slugged),
+            })),
+            ...(cacheEntry.webAnchors ?? []).map(a => ({
+                fragment: a,
+                normName: a.toLowerCase().replace(/\-/g, ''),
+            })),
+        ];
+
+        const actions = candidates
+            .map(({ fragment, normName }) => {
+                const newText = prefix + fragment;
+
+                const action = new vscode.CodeAction(
+                    newText,
+                    vscode.CodeActionKind.QuickFix
+                );
 
-        return undefined;
-    }
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(this.document.uri, toVscodeRange(link.addressRange), newText);
 
-}
+                const lcs = longestCommonSubsequence(normName) / currentNormName.length;
 
+                // this value is bad only for long current values and short suggestions
+                const lenShortage = Math.max(0, currentNormName.length - normName.length) / currentNormName.length;
 
-class ParsedDocument implements ParsedLinkedDocument {
-    constructor(
-        public readonly uri: vscode.Uri,
-        public readonly documentVersion: number,
-        public readonly headings: MarkdownHeading[],
-        public readonly links: MarkdownLink[],
-        public readonly linkRefs: MarkdownLinkRef[],
-        public readonly linkDefs: MarkdownLinkDef[],
-        public readonly lastNonEmptyLine: number,
-        public readonly endsWithLinkDef: boolean,
-    ) {
+                return { action, lcs, lenShortage };
+            });
 
+        return actions
+            .filter(r => r.lenShortage < 0.5 && r.lcs >= 0.5)
+            .sort((a, b) => b.lcs - a.lcs)
+            .map(r => r.action);
     }
 
-    hasSluggedHeading(heading: Slug) {
-        return this.headings.some(h => h.slugged.equals(heading));
-    }
 }
 
+
 function sluggedHeadersChanged(before: ParsedDocument | undefined, after: ParsedDocument | undefined) {
     if (!before || !after) return true;
     if (before === after) return false;
@@ -578,12 +1058,31 @@ interface LinkCacheEntry {
     lastVisitDocVersion: number,
     linkedDocSubscription?: () => void,
     documentHeadings?: MarkdownHeading[],
+    documentSlugifier?: Slugifier,
+    permanentRedirectUrl?: string,
+    webAnchors?: string[],
+    actualCaseUri?: URI,
+    /** Linked local file that is not found */
+    missingFileUri?: URI,
+    similarFileUris?: Promise<URI[]>,
     localLink?: true,
 }
 
 
-function getWorkspaceFolder(document: vscode.TextDocument) {
-    return vscode.workspace.getWorkspaceFolder(document.uri)?.uri
+function isTableDelimiterRow(text: string) {
+    const trimmed = text.trim();
+    if (!trimmed.includes("|")) return false;
+
+    return trimmed
+        .replace(/^\|/, "")
+        .replace(/\|$/, "")
+        .split("|")
+        .every(cell => /^\s*:?-+:?\s*$/.test(cell));
+}
+
+
+export function getWorkspaceFolder(uri: vscode.Uri) {
+    return vscode.workspace.getWorkspaceFolder(uri)?.uri
         || vscode.workspace.workspaceFolders?.[0]?.uri;
 }
 
@@ -92,7 +92,7 @@ export class DocumentStore {
         return state;
     }
 
-    private tryGetParsedDocument = (uri: vscode.Uri): ParsedLinkedDocument | undefined => {
+    tryGetParsedDocument = (uri: vscode.Uri): ParsedLinkedDocument | undefined => {
 
         for (const [doc, state] of this.documents) {
             if (doc.uri.toString() === uri.toString()) {
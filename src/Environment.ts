@@ -1,24 +1,58 @@
 import * as vscode from 'vscode';
 import { HostCredentialsStorage } from './HostCredentialsStorage';
-import { LinkChecker, MainLinkChecker } from './LinkChecker';
+import { compileLinkPatterns, LinkChecker, MainLinkChecker } from './LinkChecker';
 import { GrammarMarkdownParser, MarkdownParser } from './MarkdownParser';
-import { githubSlugifier, Slugifier } from './slugify';
+import { githubSlugifier, selectSlugifier, Slugifier, SlugOptions } from './slugify';
+import { WebLinkCache } from './WebLinkCache';
+import { LinkDiagnosticSeverity } from './LinkDiagnostics';
+import { getWorkspaceFolder } from './DocumentState';
+import { toVscodeUri } from './vscodeConverters';
 
-export interface Configuration {
+const webLinkCacheStateKey = "webLinkCache";
+
+export interface Configuration extends SlugOptions {
     countryCodeRegex?: string,
 
 	/** Number of seconds to consider cached check result valid */
 	cacheTtl?: number,
+
+    /** Glob pattern of files to exclude from the workspace link check */
+    workspaceCheckExclude?: string,
+
+    maxConcurrentRequests?: number,
+    maxConcurrentRequestsPerHost?: number,
+    /** Minimum delay in milliseconds between requests to the same host */
+    hostRequestDelay?: number,
+    /** Web request timeout in milliseconds */
+    requestTimeout?: number,
+    requestRetries?: number,
+    /** Number of consecutive failed checks to report the web link as broken */
+    failureThreshold?: number,
+
+    permanentRedirectSeverity?: LinkDiagnosticSeverity | "none",
+    unusedLinkDefinitionSeverity?: LinkDiagnosticSeverity | "none",
+
+    /** Regular expressions of link addresses to skip */
+    ignoreLinks?: RegExp[],
+    /** Web response status codes considered successful per host (`*` for all the hosts) */
+    acceptedStatusCodes?: Partial<Record<string, number[]>>,
+    checkWebLinks?: boolean,
+    checkFileLinks?: boolean,
+    checkFragments?: boolean,
+    nonMarkdownFragments?: "ignore" | "report",
+    caseSensitivePaths?: boolean,
+
+    updateLinksOnFileMove?: "preview" | "always" | "never",
 }
 
 export class Environment {
 
     configuration: Configuration;
-    public readonly slugifier: Slugifier = githubSlugifier;
-    private readonly _parser: GrammarMarkdownParser = new GrammarMarkdownParser(this.slugifier);
+    private readonly _parser: GrammarMarkdownParser = new GrammarMarkdownParser(githubSlugifier);
     public readonly parser: MarkdownParser = this._parser;
     public readonly linkChecker: LinkChecker;
     public readonly hostCredentials: HostCredentialsStorage;
+    public readonly webLinkCache: WebLinkCache;
 
     constructor(
         config: vscode.WorkspaceConfiguration,
@@ -27,14 +61,29 @@ export class Environment {
     ) {
         this.configuration = this.updateConfig(config);
         this.hostCredentials = new HostCredentialsStorage(context.secrets);
+        this.webLinkCache = new WebLinkCache(() => this.cacheTtl, {
+            get: () => context.globalState.get(webLinkCacheStateKey),
+            set: (results) => context.globalState.update(webLinkCacheStateKey, results),
+        });
         this.linkChecker = new MainLinkChecker(
             () =>  this.configuration,
-            this.slugifier,
+            (uri) => this.getSlugifier(toVscodeUri(uri)),
             this.parser,
-            this.hostCredentials
+            this.hostCredentials,
+            this.webLinkCache
         );
     }
 
+    /** Cached check result TTL in milliseconds */
+    get cacheTtl() {
+        return (this.configuration.cacheTtl ?? 5 * 60) * 1000;
+    }
+
+    /** Slugifier for the headings of the document according to the configured slug profiles */
+    getSlugifier(documentUri: vscode.Uri): Slugifier {
+        return selectSlugifier(this.configuration, documentUri, getWorkspaceFolder(documentUri));
+    }
+
     async initialize() {
         await this._parser.initialize();
     }
@@ -45,8 +94,34 @@ export class Environment {
 
         Environment.initConfig(newConfig, config, (configVal, configSec) => {
             configVal("countryCodeRegex");
+            configVal("cacheTtl");
+            configVal("workspaceCheckExclude");
+            configVal("maxConcurrentRequests");
+            configVal("maxConcurrentRequestsPerHost");
+            configVal("hostRequestDelay");
+            configVal("requestTimeout");
+            configVal("requestRetries");
+            configVal("failureThreshold");
+            configVal("permanentRedirectSeverity");
+            configVal("unusedLinkDefinitionSeverity");
+            configVal("acceptedStatusCodes");
+            configVal("checkWebLinks");
+            configVal("checkFileLinks");
+            configVal("checkFragments");
+            configVal("nonMarkdownFragments");
+            configVal("caseSensitivePaths");
+            configVal("slugProfile");
+            configVal("slugProfileOverrides");
+            configVal("updateLinksOnFileMove");
         });
 
+        const ignoreLinks = config.get<string[]>("ignoreLinks");
+        if (ignoreLinks) {
+            newConfig.ignoreLinks = compileLinkPatterns(ignoreLinks, (pattern) => {
+                vscode.window.showWarningMessage(`Invalid regular expression '${pattern}' in mdLinkChecker.ignoreLinks is skipped.`);
+            });
+        }
+
         return this.configuration = newConfig;
     }
 
@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { Environment } from './Environment';
+import { getWorkspaceFolder } from './DocumentState';
+import { createMovedUriMapper, getMovedLinkAddress, MovedUriMapper } from './fileMoves';
+import { LinkSourceDocument } from './LinkChecker';
+import { toVscodeRange } from './vscodeConverters';
+import { findWorkspaceMarkdownFiles, readMarkdownDocument } from './workspaceMarkdown';
+
+/**
+ * Updates local links of all the markdown files in the workspace
+ * when the files (or folders) are renamed or moved.
+ */
+export class FileRenameLinkUpdater {
+
+    constructor(
+        private readonly env: Environment
+    ) {
+    }
+
+    onWillRenameFiles = (event: vscode.FileWillRenameEvent) => {
+        const mode = this.env.configuration.updateLinksOnFileMove ?? "preview";
+        if (mode === "never") return;
+
+        event.waitUntil(
+            this.getLinkUpdates(event.files, mode === "preview").catch(err => {
+                console.error("link updates on file rename failed", err);
+                return new vscode.WorkspaceEdit();
+            })
+        );
+    };
+
+    private async getLinkUpdates(
+        files: ReadonlyArray<{ readonly oldUri: vscode.Uri, readonly newUri: vscode.Uri }>,
+        needsConfirmation: boolean
+    ) {
+        const mapUri = createMovedUriMapper(files);
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            needsConfirmation,
+            label: "Update links to the moved files",
+        };
+
+        const edit = new vscode.WorkspaceEdit();
+
+        const uris = await findWorkspaceMarkdownFiles(this.env);
+
+        for (const uri of uris) {
+            try {
+                await this.addDocumentLinkUpdates(edit, uri, mapUri, metadata);
+            } catch (err) {
+                console.error(`link updates on file rename failed. doc: ${uri}`, err);
+            }
+        }
+
+        return edit;
+    }
+
+    private async addDocumentLinkUpdates(
+        edit: vscode.WorkspaceEdit,
+        uri: vscode.Uri,
+        mapUri: MovedUriMapper,
+        metadata: vscode.WorkspaceEditEntryMetadata
+    ) {
+        const content = await readMarkdownDocument(uri);
+        const { links } = this.env.parser.parseDocument(content, { parseLinks: true });
+
+        const document: LinkSourceDocument = {
+            uri,
+            workspaceFolder: getWorkspaceFolder(uri),
+            tryGetParsedDocument: () => undefined,
+        };
+
+        const newUri = mapUri(uri) ?? uri;
+
+        for (const link of links!) {
+            if (link.rawAddress !== undefined) continue;
+
+            const newAddress = getMovedLinkAddress(link.address, document, newUri, mapUri);
+            if (newAddress !== undefined && newAddress !== link.address) {
+                edit.replace(uri, toVscodeRange(link.addressRange), newAddress, metadata);
+            }
+        }
+    }
+}
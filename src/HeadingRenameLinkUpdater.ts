@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { Environment } from './Environment';
+import { getRenamedFragmentLinkEdits, SlugRename } from './headingRenames';
+import { toVscodeRange, toVscodeUri } from './vscodeConverters';
+import { forEachWorkspaceDocumentLinks } from './workspaceMarkdown';
+
+/**
+ * Updates fragment links in all the markdown files of the workspace
+ * that point to the renamed headings.
+ */
+export class HeadingRenameLinkUpdater {
+
+    constructor(
+        private readonly env: Environment
+    ) {
+    }
+
+    async addLinkUpdates(edit: vscode.WorkspaceEdit, targetUri: vscode.Uri, slugRenames: SlugRename[]) {
+        if (slugRenames.length === 0) return;
+
+        const slugifier = this.env.getSlugifier(targetUri);
+
+        // the document itself might be outside of the workspace or excluded
+        await forEachWorkspaceDocumentLinks(this.env, targetUri, (document, links) => {
+            for (const linkEdit of getRenamedFragmentLinkEdits(links, document, targetUri, slugRenames, slugifier)) {
+                edit.replace(toVscodeUri(document.uri), toVscodeRange(linkEdit.range), linkEdit.newAddress);
+            }
+        });
+    }
+}
@@ -1,9 +1,10 @@
 import * as vscode from 'vscode';
+import { HostCredentialsProvider } from './LinkChecker';
 
 type HostCredentialsRecord = Partial<Record<string, string | null>>;
 const hostCredentialsSecretKey = "hostCredentials";
 
-export class HostCredentialsStorage {
+export class HostCredentialsStorage implements HostCredentialsProvider {
 	constructor(private readonly secrets: vscode.SecretStorage) {
 	}
 
@@ -1,17 +1,20 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { MarkdownHeading, MarkdownParser } from './MarkdownParser';
 import { Slug, Slugifier } from './slugify';
-import { performance } from 'perf_hooks';
 import { URL } from 'url';
-import { HostCredentialsStorage } from './HostCredentialsStorage';
-import fetch, { Response } from 'node-fetch';
+import { URI, Utils } from 'vscode-uri';
+import fetch, { RequestInit, Response } from 'node-fetch';
+import AbortController from 'abort-controller';
+import { collectHtmlAnchors, getLinkableHtmlAnchors, hasHtmlAnchor, isUncheckableHtmlFragment } from './htmlAnchors';
+import { WebLinkCache } from './WebLinkCache';
+import { RequestScheduler, RequestSchedulerOptions } from './RequestScheduler';
 
 export interface LinkCheckResult {
-	checkType: "web" | "file" | "none",
+	/** `ignored` means the link is skipped according to the options */
+	checkType: "web" | "file" | "none" | "ignored",
 	statusCode: number,
-	uri: vscode.Uri | undefined,
+	uri: URI | undefined,
 	pathFound: boolean,
 	fragmentFound: boolean,
 	hasFragment: boolean | null,
@@ -19,34 +22,84 @@ export interface LinkCheckResult {
 	linkedDocument?: ParsedLinkedDocument,
 	documentHeadings?: MarkdownHeading[],
 	requestError?: any,
+	/** Number of consecutive failed checks of the web link, including this one */
+	consecutiveFailures?: number,
+	/** Web link check failed, but the failure is not reported until `failureThreshold` is reached */
+	failureTolerated?: boolean,
+	/** Final URL if the web link was redirected */
+	redirectUrl?: string,
+	redirects?: RedirectHop[],
+	/** URL the link should be updated to, because it is permanently redirected (with the original fragment) */
+	permanentRedirectUrl?: string,
+	/** Fragment targets of the linked web page (collected only for links with fragment) */
+	webAnchors?: string[],
+	/** Number of lines of the linked non-markdown file (read only for line range fragments) */
+	linkedFileLineCount?: number,
+	/** Linked file URI with the actual path case, if it differs from the link (checked only for `caseSensitivePaths`) */
+	actualCaseUri?: URI,
+	/** Unix time in milliseconds when the link target was actually checked */
+	checkTime?: number,
+	/** Web link result was taken from the cache shared between documents */
+	fromCache?: boolean,
+	/** Authorization scheme used for the web link request (like `Basic`) */
+	authScheme?: string,
 }
 
 export interface LinkChecker {
 	checkLink(document: LinkSourceDocument, link: string): Promise<LinkCheckResult>;
 }
 
-export interface LinkCheckerOptions {
+export interface LinkCheckerOptions extends RequestSchedulerOptions {
 	countryCodeRegex?: string,
+	/** Web request timeout in milliseconds */
+	requestTimeout?: number,
+	/** Number of web request retries on network errors and 5xx responses */
+	requestRetries?: number,
+	/** Number of consecutive failed checks to report the web link as broken */
+	failureThreshold?: number,
+	/** Regular expressions of link addresses (as written in the document) to skip, see {@link compileLinkPatterns} */
+	ignoreLinks?: RegExp[],
+	/** Web response status codes considered successful per host, `*` applies to all the hosts */
+	acceptedStatusCodes?: Partial<Record<string, number[]>>,
+	checkWebLinks?: boolean,
+	checkFileLinks?: boolean,
+	checkFragments?: boolean,
+	/**
+	 * How to treat fragments of non-markdown files other than line ranges (`#L10-L20`):
+	 * `ignore` (default) considers them valid, `report` reports them as broken.
+	 */
+	nonMarkdownFragments?: "ignore" | "report",
+	/** Report local links which path case differs from the actual one even on case-insensitive file systems */
+	caseSensitivePaths?: boolean,
+}
+
+/**
+ * Provides per host authorization strings (like `Bearer <token>`).
+ * `null` means the host should not be asked for credentials.
+ */
+export interface HostCredentialsProvider {
+	tryGet(host: string): Promise<string | undefined | null>;
+	requestNew(host: string): Promise<string | undefined | null>;
 }
 
 
 export interface ParsedLinkedDocument {
-	readonly uri: vscode.Uri,
+	readonly uri: URI,
 	readonly documentVersion: number,
 	readonly headings: MarkdownHeading[],
 	hasSluggedHeading(heading: Slug): boolean,
 }
 
 export interface LinkSourceDocument {
-	uri: vscode.Uri,
-	workspaceFolder: vscode.Uri | undefined,
-	tryGetParsedDocument(uri: vscode.Uri): ParsedLinkedDocument | undefined,
+	uri: URI,
+	workspaceFolder: URI | undefined,
+	tryGetParsedDocument(uri: URI): ParsedLinkedDocument | undefined,
 
 }
 
 
 export interface LinkSourceDocumentCache {
-	findDocument(uri: vscode.Uri): LinkSourceDocument | undefined,
+	findDocument(uri: URI): LinkSourceDocument | undefined,
 }
 
 
@@ -57,11 +110,13 @@ export class MainLinkChecker implements LinkChecker {
 
 	constructor(
 		private readonly optionsProvider: () => LinkCheckerOptions,
-		private readonly slugifier: Slugifier,
+		/** Provides slugifier for the headings of the linked document */
+		private readonly slugifierProvider: (documentUri: URI) => Slugifier,
 		private readonly markdownParser: MarkdownParser,
-		private readonly hostCredentials: HostCredentialsStorage
+		private readonly hostCredentials: HostCredentialsProvider,
+		private readonly webLinkCache?: WebLinkCache
 	) {
-		this.urlChecker = new NodeFetchUrlChecker();
+		this.urlChecker = new NodeFetchUrlChecker(optionsProvider, new RequestScheduler(optionsProvider));
 	}
 
 	checkLink(document: LinkSourceDocument, link: string): Promise<LinkCheckResult> {
@@ -69,6 +124,10 @@ export class MainLinkChecker implements LinkChecker {
 
 		let uri;
 		try {
+			if (isIgnoredLink(link, options.ignoreLinks)) {
+				return Promise.resolve(createUncheckedResult("ignored", undefined));
+			}
+
 			uri = parseLink(document, link);
 		} catch (e) {
 			return Promise.reject(e);
@@ -76,69 +135,125 @@ export class MainLinkChecker implements LinkChecker {
 
 		if (uri) {
 			if (uri.scheme === "http" || uri.scheme === "https") {
-				return this.checkWebLink(link, uri, options);
+				return options.checkWebLinks === false
+					? Promise.resolve(createUncheckedResult("ignored", uri))
+					: this.checkWebLink(link, uri, options);
 
 			} else if (uri.scheme === "file" || uri.scheme === "untitled") {
-				return this.checkFileLink(document, uri, options);
+				return options.checkFileLinks === false
+					? Promise.resolve(createUncheckedResult("ignored", uri))
+					: this.checkFileLink(document, uri, options);
 			}
 		}
 
-		return Promise.resolve({
-			checkType: "none",
-			uri,
-			pathFound: false,
-			hasFragment: null,
-			fragmentFound: false,
-			statusCode: 0,
-		});
+		return Promise.resolve(createUncheckedResult("none", uri));
 	};
 
 
 
 	private async checkWebLink(
 		link: string,
-		uri: vscode.Uri,
+		uri: URI,
 		options: LinkCheckerOptions
 	): Promise<LinkCheckResult> {
 
 		const parsedUrl = new URL(link);
-		let authString = await this.hostCredentials.tryGet(parsedUrl.host);
+		const startTime = Date.now();
 
-		let checkResult = await this.urlChecker.checkUrl(link, authString || undefined);
+		const fragment = uri.fragment;
+		const collectAnchors = fragment.length !== 0 && options.checkFragments !== false;
 
-		if (authString !== null && checkResult.statusCode === 401) {
-			const authString = await this.hostCredentials.requestNew(parsedUrl.host);
+		const check = () => this.checkUrlWithCredentials(link, parsedUrl, collectAnchors).then(r => this.countFailures(parsedUrl, r));
 
-			if (authString) {
-				checkResult = await this.urlChecker.checkUrl(link, authString);
-			}
+		const checkResult = this.webLinkCache
+			? await this.webLinkCache.getOrAdd(link, check, collectAnchors)
+			: await check();
+
+		// anchors are not collected for non-html pages, fragments of such pages are not checked
+		let hasFragment: boolean | null = null;
+		let fragmentFound = false;
+		if (checkResult.anchors && !isUncheckableHtmlFragment(fragment)) {
+			hasFragment = true;
+			fragmentFound = hasHtmlAnchor(checkResult.anchors, fragment);
 		}
 
 		const countryCode = hasCountryCode(link, options.countryCodeRegex);
 
+		const failureThreshold = Math.max(1, options.failureThreshold ?? 1);
+
+		const alive = checkResult.alive || isAcceptedStatusCode(parsedUrl.host, checkResult.statusCode, options.acceptedStatusCodes);
+
 		return {
 			checkType: "web",
 			uri,
-			pathFound: checkResult.alive,
-			hasFragment: null,
-			fragmentFound: false,
+			pathFound: alive,
+			hasFragment,
+			fragmentFound,
 			countryCode,
 			statusCode: checkResult.statusCode,
 			requestError: checkResult.err,
+			consecutiveFailures: checkResult.consecutiveFailures,
+			failureTolerated: !alive && (checkResult.consecutiveFailures ?? 1) < failureThreshold,
+			redirectUrl: checkResult.redirectUrl,
+			redirects: checkResult.redirects,
+			permanentRedirectUrl: withFragment(getPermanentRedirectUrl(checkResult.redirects, checkResult.redirectUrl), parsedUrl.hash),
+			webAnchors: checkResult.anchors && getLinkableHtmlAnchors(checkResult.anchors),
+			checkTime: checkResult.checkTime,
+			fromCache: checkResult.checkTime !== undefined && checkResult.checkTime < startTime,
+			authScheme: checkResult.authScheme,
+		};
+	}
+
+	private readonly consecutiveFailures = new Map<string, number>();
+
+	private countFailures(parsedUrl: URL, checkResult: UrlCheckResult): UrlCheckResult {
+		const key = normalizeWebUrl(parsedUrl.href);
+		const acceptedStatusCodes = this.optionsProvider().acceptedStatusCodes;
+		if (checkResult.alive || isAcceptedStatusCode(parsedUrl.host, checkResult.statusCode, acceptedStatusCodes)) {
+			this.consecutiveFailures.delete(key);
+			return checkResult;
+		} else {
+			const consecutiveFailures = (this.consecutiveFailures.get(key) ?? 0) + 1;
+			this.consecutiveFailures.set(key, consecutiveFailures);
+			return { ...checkResult, consecutiveFailures };
+		}
+	}
+
+	private async checkUrlWithCredentials(link: string, parsedUrl: URL, collectAnchors: boolean): Promise<UrlCheckResult> {
+
+		let authString = await this.hostCredentials.tryGet(parsedUrl.host);
+		let usedAuthString = authString || undefined;
+
+		let checkResult = await this.urlChecker.checkUrl(link, usedAuthString, collectAnchors);
+
+		if (authString !== null && checkResult.statusCode === 401) {
+			const authString = await this.hostCredentials.requestNew(parsedUrl.host);
+
+			if (authString) {
+				usedAuthString = authString;
+				checkResult = await this.urlChecker.checkUrl(link, authString, collectAnchors);
+			}
+		}
+
+		return {
+			...checkResult,
+			authScheme: usedAuthString?.split(" ", 1)[0],
+			checkTime: Date.now(),
 		};
 	}
 
 	private async checkFileLink(
 		document: LinkSourceDocument,
-		uri: vscode.Uri,
+		uri: URI,
 		options: LinkCheckerOptions
 	): Promise<LinkCheckResult> {
-		const hasFragment = uri.fragment.length !== 0;
+		let hasFragment = uri.fragment.length !== 0 && options.checkFragments !== false;
 
 		let pathFound;
 		let fragmentFound = false;
 		let requestError;
 		let documentHeadings;
+		let linkedFileLineCount;
 
 		const linkedDocUri = uri.with({ fragment: '' });
 		const linkedDocument = document.tryGetParsedDocument(linkedDocUri);
@@ -147,7 +262,23 @@ export class MainLinkChecker implements LinkChecker {
 			pathFound = true;
 			documentHeadings = linkedDocument.headings;
 			if (hasFragment) {
-				fragmentFound = linkedDocument.hasSluggedHeading(this.slugifier.fromFragment(uri.fragment));
+				fragmentFound = linkedDocument.hasSluggedHeading(this.slugifierProvider(linkedDocUri).fromFragment(uri.fragment));
+			}
+		} else if (hasFragment && !isMarkdownPath(uri.path)) {
+			const lineRange = parseLineRangeFragment(uri.fragment);
+			if (lineRange) {
+				let content;
+				[content, requestError] = await readFile(uri.fsPath);
+				pathFound = content !== undefined;
+				if (content !== undefined) {
+					linkedFileLineCount = countLines(content);
+					fragmentFound = lineRange.start >= 1
+						&& lineRange.start <= lineRange.end
+						&& lineRange.end <= linkedFileLineCount;
+				}
+			} else {
+				hasFragment = options.nonMarkdownFragments === "report";
+				[pathFound, requestError] = await fileExists(uri.fsPath);
 			}
 		} else {
 			if (hasFragment) {
@@ -156,9 +287,10 @@ export class MainLinkChecker implements LinkChecker {
 
 				if (content !== undefined) {
 					pathFound = true;
-					const { headings } = await this.markdownParser.parseDocument(content, { parseHeadings: true });
+					const slugifier = this.slugifierProvider(linkedDocUri);
+					const { headings } = await this.markdownParser.parseDocument(content, { parseHeadings: true, slugifier });
 					documentHeadings = headings;
-					const sluggedFragment = this.slugifier.fromFragment(uri.fragment);
+					const sluggedFragment = slugifier.fromFragment(uri.fragment);
 					fragmentFound = !!headings && headings.some(h => h.slugged.equals(sluggedFragment));
 				} else {
 					pathFound = false;
@@ -168,6 +300,17 @@ export class MainLinkChecker implements LinkChecker {
 				[pathFound, requestError] = await fileExists(uri.fsPath);
 			}
 		}
+
+		let actualCaseUri;
+		if (pathFound && options.caseSensitivePaths && uri.scheme === "file") {
+			// the actual path is built without the trailing separator of the folder links
+			const linkedPath = trimTrailingSeparators(linkedDocUri.fsPath);
+			const actualPath = await getActualPathCase(linkedPath);
+			if (actualPath !== undefined && actualPath !== linkedPath) {
+				actualCaseUri = URI.file(actualPath + linkedDocUri.fsPath.substring(linkedPath.length));
+			}
+		}
+
 		return {
 			checkType: "file",
 			uri,
@@ -177,7 +320,10 @@ export class MainLinkChecker implements LinkChecker {
 			statusCode: pathFound ? 200 : 404,
 			requestError,
 			linkedDocument,
-			documentHeadings
+			documentHeadings,
+			linkedFileLineCount,
+			actualCaseUri,
+			checkTime: Date.now(),
 		};
 	}
 }
@@ -186,47 +332,47 @@ export class MainLinkChecker implements LinkChecker {
 const angleBracketLinkRe = /^<(.*)>$/;
 
 // https://github.dev/microsoft/vscode/blob/f586b32587de915ec4a089098b897d052da0d1eb/extensions/markdown-language-features/src/features/documentLinkProvider.ts#L14
-function parseLink(
+export function parseLink(
 	document: LinkSourceDocument,
 	link: string,
-): vscode.Uri | undefined {
+): URI | undefined {
 
 	// Used to strip brackets from the markdown link
 	//<http://example.com> will be transformed to http://example.com
 	const cleanLink = link.replace(angleBracketLinkRe, '$1');
 
-	const externalSchemeUri = vscode.Uri.parse(cleanLink);
+	const externalSchemeUri = URI.parse(cleanLink);
 	if (externalSchemeUri && (externalSchemeUri.scheme !== "file" || link.toLowerCase().startsWith("file"))) {
 		return externalSchemeUri;
 	}
 
 	// Assume it must be an relative or absolute file path
 	// Use a fake scheme to avoid parse warnings
-	const tempUri = vscode.Uri.parse(`vscode-resource:${link}`);
+	const tempUri = URI.parse(`vscode-resource:${link}`);
 
-	let resourceUri: vscode.Uri | undefined;
+	let resourceUri: URI | undefined;
 	if (!tempUri.path) {
 		resourceUri = document.uri;
 	} else if (tempUri.path[0] === '/') {
 		const root = document.workspaceFolder;
 		if (root) {
-			resourceUri = vscode.Uri.joinPath(root, tempUri.path);
+			resourceUri = Utils.joinPath(root, tempUri.path);
 		}
 	} else {
 
 		let documentUri = document.uri;
 		if (documentUri.scheme === "vscode-bulkeditpreview") {
-			documentUri = vscode.Uri.parse(documentUri.query);
+			documentUri = URI.parse(documentUri.query);
 		}
 
 		if (documentUri.scheme === "untitled") {
 			const root = document.workspaceFolder;
 			if (root) {
-				resourceUri = vscode.Uri.joinPath(root, tempUri.path);
+				resourceUri = Utils.joinPath(root, tempUri.path);
 			}
 		} else {
 			const base = documentUri.with({ path: path.dirname(documentUri.fsPath) });
-			resourceUri = vscode.Uri.joinPath(base, tempUri.path);
+			resourceUri = Utils.joinPath(base, tempUri.path);
 		}
 	}
 
@@ -240,67 +386,127 @@ function parseLink(
 }
 
 
-interface UrlCheckResult {
+export interface UrlCheckResult {
 
 	err: any,
 	alive: boolean,
 	statusCode: number,
+	/** Final URL if the request was redirected */
+	redirectUrl?: string,
+	redirects?: RedirectHop[],
+	consecutiveFailures?: number,
+	/** `id` and `name` anchors of the HTML page, if requested */
+	anchors?: string[],
+	/** Scheme of the authorization used for the request */
+	authScheme?: string,
+	/** Unix time in milliseconds */
+	checkTime?: number,
+}
+
+export interface RedirectHop {
+	/** URL that was redirected */
+	url: string,
+	statusCode: number,
 }
 
+const permanentRedirectStatusCodes = [301, 308];
 
+/**
+ * @returns URL the link should be updated to, if the link is permanently redirected.
+ * Permanent redirects after temporary ones are ignored, because the temporary target might change.
+ */
+export function getPermanentRedirectUrl(redirects: RedirectHop[] | undefined, finalUrl: string | undefined) {
+	if (!redirects || !finalUrl) return undefined;
 
-class NodeFetchUrlChecker {
+	let target;
+	for (let i = 0; i < redirects.length && permanentRedirectStatusCodes.includes(redirects[i].statusCode); i++) {
+		target = redirects[i + 1]?.url ?? finalUrl;
+	}
+
+	return target;
+}
 
-	async checkUrl(url: string, authorization?: string): Promise<UrlCheckResult> {
+/**
+ * URL without fragment in the normalized form, can be used as the key of the URL check results.
+ */
+export function normalizeWebUrl(url: string) {
+	const parsed = new URL(url);
+	parsed.hash = "";
+	return parsed.href;
+}
 
-		let headers;
 
-		if (authorization) {
-			headers = {
-				// eslint-disable-next-line @typescript-eslint/naming-convention
-				"Authorization": authorization,
-			};
-		}
 
-		let response;
+const retryAfterStatusCodes = [429, 503];
+/** Longer `Retry-After` delays are not waited, the response is returned as is */
+const maxRetryAfterDelay = 60 * 1000;
+const maxRetryAfterAttempts = 3;
+
+const redirectStatusCodes = [301, 302, 303, 307, 308];
+const maxRedirects = 20;
+
+const defaultRequestTimeout = 10 * 1000;
+const defaultRequestRetries = 2;
+/** Delay before the first retry, doubled for every next one */
+const retryBaseDelay = 1000;
+
+interface FetchResponse {
+	response: Response,
+	/** Body of the successful HTML response, if requested */
+	html?: string,
+}
+
+interface FetchResult extends FetchResponse {
+	redirects: RedirectHop[],
+	/** Final URL */
+	url: string,
+}
+
+class NodeFetchUrlChecker {
+
+	constructor(
+		private readonly optionsProvider: () => LinkCheckerOptions,
+		private readonly scheduler: RequestScheduler
+	) {
+	}
+
+	async checkUrl(url: string, authorization?: string, collectAnchors = false): Promise<UrlCheckResult> {
+
+		let result;
 
 		try
 		{
-			response = await fetch(url, {
-				method: "HEAD",
-				headers,
-			});
+			// anchors require the page content
+			result = collectAnchors
+				? await this.fetchFollowingRedirects(url, "GET", authorization, true)
+				: await this.fetchFollowingRedirects(url, "HEAD", authorization);
 		} catch (err) {
 			return createError(err);
 		}
 
-		if (shouldTryGetInsteadOfHead(response)) {
+		if (!collectAnchors && shouldTryGetInsteadOfHead(result.response)) {
 			try
 			{
-				response = await fetch(url, {
-					method: "GET",
-					headers
-				});
+				result = await this.fetchFollowingRedirects(url, "GET", authorization);
 			} catch (err) {
 				return createError(err);
 			}
 		}
 
-		return createResult(response);
-
-		function isOk(response: Response) {
-			return response.status >= 200 && response.status < 300;
-		}
+		return createResult(result);
 
 		function shouldTryGetInsteadOfHead(response: Response) {
 			return response.status >= 400 && response.status < 500;
 		}
 
-		function createResult(response: Response): UrlCheckResult {
+		function createResult({ response, redirects, url, html }: FetchResult): UrlCheckResult {
 			return {
 				statusCode: response.status,
 				alive: isOk(response),
-				err: undefined
+				err: undefined,
+				redirects: redirects.length > 0 ? redirects : undefined,
+				redirectUrl: redirects.length > 0 ? url : undefined,
+				anchors: html !== undefined ? collectHtmlAnchors(html) : undefined,
 			};
 		}
 
@@ -313,9 +519,155 @@ class NodeFetchUrlChecker {
 			};
 		}
 	}
+
+	/**
+	 * node-fetch follows redirects silently, so redirects are followed manually to record the chain.
+	 */
+	private async fetchFollowingRedirects(url: string, method: string, authorization?: string, readHtml = false): Promise<FetchResult> {
+
+		const redirects: RedirectHop[] = [];
+		const originalHost = new URL(url).host;
+		// fragment is not sent anyway, but it should not get to the redirect chain
+		url = normalizeWebUrl(url);
+
+		for (;;) {
+			let headers;
+
+			// credentials are not sent to other hosts
+			if (authorization && new URL(url).host === originalHost) {
+				headers = {
+					// eslint-disable-next-line @typescript-eslint/naming-convention
+					"Authorization": authorization,
+				};
+			}
+
+			const { response, html } = await this.fetch(url, {
+				method,
+				headers,
+				redirect: "manual",
+			}, readHtml);
+
+			const location = response.headers.get("Location");
+			if (!redirectStatusCodes.includes(response.status) || !location) {
+				return { response, html, redirects, url };
+			}
+
+			if (redirects.length >= maxRedirects) {
+				throw new Error(`Maximum redirect count (${maxRedirects}) exceeded`);
+			}
+
+			redirects.push({ url, statusCode: response.status });
+			url = new URL(location, url).href;
+
+			if (response.status === 303) {
+				method = method === "HEAD" ? "HEAD" : "GET";
+			}
+		}
+	}
+
+	private async fetch(url: string, init: RequestInit, readHtml: boolean): Promise<FetchResponse> {
+
+		const options = this.optionsProvider();
+		const timeout = options.requestTimeout || defaultRequestTimeout;
+		const maxRetries = options.requestRetries ?? defaultRequestRetries;
+
+		const host = new URL(url).host;
+		let retryAfterAttempts = 0;
+		let retries = 0;
+
+		for (;;) {
+			let result;
+			try {
+				result = await this.scheduler.schedule(host, () => fetchWithTimeout(url, init, timeout, readHtml));
+			} catch (err) {
+				if (retries >= maxRetries) throw err;
+				await delay(retryBaseDelay * 2 ** retries++);
+				continue;
+			}
+
+			const response = result.response;
+			if (retryAfterStatusCodes.includes(response.status) && retryAfterAttempts < maxRetryAfterAttempts) {
+				const retryTime = parseRetryAfter(response.headers.get("Retry-After"));
+				if (retryTime !== undefined && retryTime - Date.now() <= maxRetryAfterDelay) {
+					++retryAfterAttempts;
+					this.scheduler.postpone(host, retryTime);
+					continue;
+				}
+			}
+
+			if (response.status >= 500 && retries < maxRetries) {
+				await delay(retryBaseDelay * 2 ** retries++);
+				continue;
+			}
+
+			return result;
+		}
+	}
+}
+
+/**
+ * Timeout includes HTML body reading.
+ */
+async function fetchWithTimeout(url: string, init: RequestInit, timeout: number, readHtml: boolean): Promise<FetchResponse> {
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeout);
+	try {
+		const response = await fetch(url, { ...init, signal: controller.signal });
+		const html = readHtml && isOk(response) && isHtml(response)
+			? await response.text()
+			: undefined;
+
+		return { response, html };
+	} catch (err) {
+		if (controller.signal.aborted) {
+			throw new Error(`Request timeout of ${timeout} ms exceeded`);
+		}
+		throw err;
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+function isOk(response: Response) {
+	return response.status >= 200 && response.status < 300;
+}
+
+function isHtml(response: Response) {
+	const contentType = response.headers.get("Content-Type");
+	return !!contentType && /\b(text\/html|application\/xhtml\+xml)\b/i.test(contentType);
+}
+
+function delay(ms: number) {
+	return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * @returns Unix time in milliseconds to retry the request at.
+ */
+function parseRetryAfter(value: string | null) {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (!isNaN(seconds)) {
+		return Date.now() + seconds * 1000;
+	}
+
+	const date = Date.parse(value);
+	return isNaN(date) ? undefined : date;
 }
 
 
+function withFragment(url: string | undefined, hash: string) {
+	if (!url || !hash) return url;
+
+	const parsed = new URL(url);
+	if (!parsed.hash) {
+		parsed.hash = hash;
+	}
+
+	return parsed.href;
+}
+
 function fileExists(filePath: string) {
 	return new Promise<[boolean, any]>((resolve, reject) => {
 		fs.access(filePath, err => {
@@ -324,6 +676,40 @@ function fileExists(filePath: string) {
 	});
 }
 
+/**
+ * @returns the path with the case of the actual directory entries,
+ * undefined if the path can not be resolved.
+ */
+function trimTrailingSeparators(filePath: string) {
+	const { root } = path.parse(filePath);
+	return filePath.length > root.length ? filePath.replace(/[\\/]+$/, "") : filePath;
+}
+
+async function getActualPathCase(filePath: string): Promise<string | undefined> {
+	const { root } = path.parse(filePath);
+	const segments = filePath.substring(root.length).split(path.sep).filter(s => s.length !== 0);
+
+	let actualPath = root;
+	for (const segment of segments) {
+		let entries;
+		try {
+			entries = await fs.promises.readdir(actualPath);
+		} catch {
+			return undefined;
+		}
+
+		const entry = entries.includes(segment)
+			? segment
+			: entries.find(e => e.toLowerCase() === segment.toLowerCase());
+
+		if (entry === undefined) return undefined;
+
+		actualPath = path.join(actualPath, entry);
+	}
+
+	return actualPath;
+}
+
 function readFile(filePath: string) {
 	return new Promise<[string | undefined, any]>((resolve, reject) => {
 		fs.readFile(filePath, "utf8", (err, data) => {
@@ -332,6 +718,67 @@ function readFile(filePath: string) {
 	});
 }
 
+const markdownExtensionRe = /\.(md|markdown)$/i;
+
+export function isMarkdownPath(filePath: string) {
+	return markdownExtensionRe.test(filePath);
+}
+
+// GitHub (`#L10-L20`, `#L10C1-L20C5`) and GitLab (`#L10-20`) style
+const lineRangeFragmentRe = /^L(\d+)(?:C\d+)?(?:-L?(\d+)(?:C\d+)?)?$/;
+
+export function parseLineRangeFragment(fragment: string) {
+	const match = fragment.match(lineRangeFragmentRe);
+	if (!match) return undefined;
+
+	const start = Number(match[1]);
+	return { start, end: match[2] !== undefined ? Number(match[2]) : start };
+}
+
+function countLines(content: string) {
+	const lines = content.split("\n").length;
+	// trailing line break does not start a new line
+	return content.endsWith("\n") ? lines - 1 : lines;
+}
+
+function createUncheckedResult(checkType: "none" | "ignored", uri: URI | undefined): LinkCheckResult {
+	return {
+		checkType,
+		uri,
+		pathFound: false,
+		hasFragment: null,
+		fragmentFound: false,
+		statusCode: 0,
+	};
+}
+
+/**
+ * Compiles the link address patterns, invalid patterns are skipped.
+ */
+export function compileLinkPatterns(patterns: readonly string[], onInvalidPattern: (pattern: string, error: unknown) => void) {
+	const result: RegExp[] = [];
+	for (const pattern of patterns) {
+		try {
+			result.push(new RegExp(pattern));
+		} catch (e) {
+			onInvalidPattern(pattern, e);
+		}
+	}
+
+	return result;
+}
+
+function isIgnoredLink(link: string, patterns: RegExp[] | undefined) {
+	return !!patterns && patterns.some(p => p.test(link));
+}
+
+function isAcceptedStatusCode(host: string, statusCode: number, acceptedStatusCodes: LinkCheckerOptions["acceptedStatusCodes"]) {
+	if (!acceptedStatusCodes || statusCode === 0) return false;
+
+	return !!acceptedStatusCodes[host]?.includes(statusCode)
+		|| !!acceptedStatusCodes["*"]?.includes(statusCode);
+}
+
 function hasCountryCode(linkToCheck: string, regex: string | undefined): string | undefined {
 
 	if (!regex) return undefined;
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { Environment } from './Environment';
+import { DocumentStore } from './DocumentStore';
+import { getWorkspaceFolder } from './DocumentState';
+import { isMarkdownPath, LinkSourceDocument, parseLink } from './LinkChecker';
+import { toVscodeUri } from './vscodeConverters';
+import { readDocumentHeadings } from './workspaceMarkdown';
+
+export const linkCompletionTriggerCharacters = ["(", "#", "/", "["];
+
+// [text](address or ![alt](address
+const inlineLinkAddressRe = /\]\(<?([^\s()<>]*)$/;
+// [name]: address
+const linkDefAddressRe = /^\s{0,3}\[[^\]]+\]:\s*<?([^\s<>]*)$/;
+// [text][name
+const linkRefNameRe = /\]\[([^\]]*)$/;
+
+/**
+ * Suggests workspace files and folders in link addresses,
+ * heading slugs after `#` and link definition names in reference links.
+ */
+export class LinkCompletionProvider implements vscode.CompletionItemProvider {
+
+    constructor(
+        private readonly env: Environment,
+        private readonly documents: DocumentStore
+    ) {
+    }
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | undefined> {
+
+        const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+
+        const refMatch = linePrefix.match(linkRefNameRe);
+        if (refMatch) {
+            return this.getLinkRefNameCompletions(document, position, refMatch[1]);
+        }
+
+        const addressMatch = linePrefix.match(inlineLinkAddressRe) ?? linePrefix.match(linkDefAddressRe);
+        if (!addressMatch) return undefined;
+
+        const typed = addressMatch[1];
+
+        // web links
+        if (/^[a-z][\w+.-]*:/i.test(typed)) return undefined;
+
+        const linkSource: LinkSourceDocument = {
+            uri: document.uri,
+            workspaceFolder: getWorkspaceFolder(document.uri),
+            tryGetParsedDocument: () => undefined,
+        };
+
+        const hashIndex = typed.indexOf('#');
+        if (hashIndex !== -1) {
+            return this.getFragmentCompletions(linkSource, position, typed.substring(0, hashIndex), typed.length - hashIndex - 1);
+        } else {
+            return this.getPathCompletions(linkSource, position, typed);
+        }
+    }
+
+    private getLinkRefNameCompletions(document: vscode.TextDocument, position: vscode.Position, typed: string) {
+
+        const { linkDefs } = this.env.parser.parseDocument(document, { parseLinkDefs: true });
+
+        const range = new vscode.Range(position.translate(0, -typed.length), position);
+        const names = new Set(linkDefs!.map(d => d.name));
+
+        return [...names].map(name => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Reference);
+            item.range = range;
+            return item;
+        });
+    }
+
+    private async getFragmentCompletions(
+        linkSource: LinkSourceDocument,
+        position: vscode.Position,
+        pathPart: string,
+        typedFragmentLength: number
+    ) {
+        let targetUri;
+        try {
+            targetUri = parseLink(linkSource, pathPart);
+        } catch {
+            return undefined;
+        }
+
+        if (!targetUri) return undefined;
+
+        const isMarkdown = targetUri.scheme === "untitled"
+            || (targetUri.scheme === "file" && (pathPart.length === 0 || isMarkdownPath(targetUri.path)));
+        if (!isMarkdown) return undefined;
+
+        const headings = await readDocumentHeadings(this.env, this.documents, toVscodeUri(targetUri));
+        if (!headings) return undefined;
+
+        const range = new vscode.Range(position.translate(0, -typedFragmentLength), position);
+
+        return headings.map((h, index) => {
+            const item = new vscode.CompletionItem(
+                { label: h.slug, description: h.isHtmlAnchor ? "HTML anchor" : h.title },
+                vscode.CompletionItemKind.Reference
+            );
+            item.range = range;
+            item.insertText = encodeURI(h.slug);
+            // document order
+            item.sortText = index.toString().padStart(6, "0");
+            return item;
+        });
+    }
+
+    private async getPathCompletions(linkSource: LinkSourceDocument, position: vscode.Position, typed: string) {
+
+        const slashIndex = typed.lastIndexOf('/');
+        const dirPart = typed.substring(0, slashIndex + 1);
+
+        let dirUri;
+        try {
+            dirUri = parseLink(linkSource, dirPart || "./");
+        } catch {
+            return undefined;
+        }
+
+        if (!dirUri || dirUri.scheme !== "file") return undefined;
+
+        let entries;
+        try {
+            entries = await vscode.workspace.fs.readDirectory(toVscodeUri(dirUri));
+        } catch {
+            return undefined;
+        }
+
+        const range = new vscode.Range(position.translate(0, -(typed.length - dirPart.length)), position);
+
+        return entries
+            .filter(([name]) => !name.startsWith("."))
+            .map(([name, type]) => {
+                const isDirectory = (type & vscode.FileType.Directory) !== 0;
+                const item = new vscode.CompletionItem(
+                    name,
+                    isDirectory ? vscode.CompletionItemKind.Folder : vscode.CompletionItemKind.File
+                );
+
+                item.range = range;
+                if (isDirectory) {
+                    item.insertText = encodeURI(name) + "/";
+                    item.command = { command: "editor.action.triggerSuggest", title: "" };
+                } else {
+                    item.insertText = encodeURI(name);
+                }
+
+                return item;
+            });
+    }
+}
@@ -0,0 +1,276 @@
+import { MarkdownComment, MarkdownFootnoteDef, MarkdownFootnoteRef, MarkdownLink, MarkdownLinkDef, MarkdownLinkRef, TextRange } from './MarkdownParser';
+import { LinkChecker, LinkCheckResult, LinkSourceDocument } from './LinkChecker';
+import { ParsedDocument } from './ParsedDocument';
+import { LinkSuppressions } from './suppressions';
+
+export type LinkDiagnosticSeverity = "error" | "warning" | "information" | "hint";
+
+export interface LinkDiagnosticsOptions {
+	/** Severity of the permanently redirected web link diagnostic, "information" by default */
+	permanentRedirectSeverity?: LinkDiagnosticSeverity | "none",
+	/** Severity of the link definition or footnote that is not referenced in the document, "warning" by default */
+	unusedLinkDefinitionSeverity?: LinkDiagnosticSeverity | "none",
+}
+
+export interface LinkDiagnostic {
+	range: TextRange,
+	message: string,
+	severity: LinkDiagnosticSeverity,
+	/** Diagnosed code is unused and can be removed */
+	unnecessary?: true,
+	/** Related location in the same document */
+	related?: {
+		range: TextRange,
+		message: string,
+	},
+}
+
+
+/**
+ * Checks all the links of the document without any caching (except for the same links in the document)
+ * and returns diagnostics for the links and the link references.
+ */
+export async function checkDocumentLinks(
+	linkChecker: LinkChecker,
+	document: LinkSourceDocument,
+	parsed: ParsedDocument,
+	options: LinkDiagnosticsOptions
+): Promise<LinkDiagnostic[]> {
+
+	const checks = new Map<string, Promise<LinkCheckResult | undefined>>();
+	const results = await Promise.all(parsed.links.map(l => {
+		let check = checks.get(l.address);
+		if (!check) {
+			check = linkChecker.checkLink(document, l.address).catch(error => {
+				console.error(`link check failed. doc: ${document.uri} link: ${l.address}`, error);
+				return undefined;
+			});
+			checks.set(l.address, check);
+		}
+
+		return check;
+	}));
+
+	const diag: LinkDiagnostic[] = [];
+	gatherLinkRefDiagnostics(diag, parsed.linkRefs, parsed.linkDefs, options);
+	gatherFootnoteDiagnostics(diag, parsed.footnoteRefs, parsed.footnoteDefs, options);
+	gatherLinkDiagnostics(diag, parsed.links, results, options);
+	return filterSuppressedDiagnostics(diag, parsed.comments);
+}
+
+
+/**
+ * Removes the diagnostics suppressed with comments in the document.
+ */
+export function filterSuppressedDiagnostics(diag: LinkDiagnostic[], comments: MarkdownComment[]) {
+	if (comments.length === 0) return diag;
+
+	const suppressions = new LinkSuppressions(comments);
+	return diag.filter(d => !suppressions.isSuppressed(d.range.start.line));
+}
+
+
+export function gatherLinkDiagnostics(
+	diag: LinkDiagnostic[],
+	links: MarkdownLink[],
+	results: Array<LinkCheckResult | undefined>,
+	options: LinkDiagnosticsOptions
+) {
+
+	const permanentRedirectSeverity = options.permanentRedirectSeverity ?? "information";
+
+	for (let index = 0; index < links.length; index++) {
+		const res = results[index];
+		if (res) {
+			gather(links[index], res);
+		}
+	}
+
+	return diag;
+
+	function addDiagnostic(link: MarkdownLink, message: string, severity: LinkDiagnosticSeverity) {
+		diag.push({ range: link.addressRange, message, severity });
+	}
+
+	function gather(link: MarkdownLink, result: LinkCheckResult) {
+
+		const uriStr = result.uri?.scheme === "file" ? result.uri.fsPath : result.uri?.toString();
+
+		if (result.checkType === "ignored") {
+			return;
+		}
+
+		if (result.checkType === "none") {
+
+			addDiagnostic(link, `Can not check this type of link. Scheme: ${result.uri?.scheme || "not parsed"}`, "information");
+
+		} else {
+
+			if (result.pathFound) {
+				if (result.hasFragment && !result.fragmentFound) {
+					const lineCount = result.linkedFileLineCount !== undefined ? `\nFile has ${result.linkedFileLineCount} line(s).` : "";
+					addDiagnostic(link, `Document found, but fragment '#${result.uri?.fragment}' check failed.${lineCount}\nResolved link: ${uriStr}`, "error");
+				} else {
+					// addDiagnostic(link, `Link check passed.\nResolved link: ${uriStr}`, "hint");
+				}
+
+				if (result.actualCaseUri) {
+					addDiagnostic(
+						link,
+						`Link path case does not match the actual file path, the link will be broken on case-sensitive file systems.`
+						+ `\nActual path: ${result.actualCaseUri.fsPath}`,
+						"error"
+					);
+				}
+
+				if (result.permanentRedirectUrl && permanentRedirectSeverity !== "none") {
+					addDiagnostic(
+						link,
+						`Link is permanently redirected, consider updating it.\nRedirected to: ${result.permanentRedirectUrl}`
+						+ `\nRedirects: ${result.redirects!.map(r => `${r.statusCode} ${r.url}`).join(" -> ")} -> ${result.redirectUrl}`,
+						permanentRedirectSeverity
+					);
+				}
+			} else if (result.failureTolerated) {
+				const reason = result.statusCode === 0 ? `${result.requestError}` : `Status: ${result.statusCode}`;
+				addDiagnostic(
+					link,
+					`Link check failed ${result.consecutiveFailures} time(s) in a row, it is not reported as broken until the failure threshold is reached.`
+					+ `\nResolved link: ${uriStr}\n${reason}`, "information");
+			} else if (result.statusCode === 0) {
+				//https://github.com/microsoft/vscode/issues/136787
+				if (result.requestError?.code === "CERT_HAS_EXPIRED") {
+					addDiagnostic(
+						link,
+						`Link check failed.`
+						+ `\nElectron can not validate the certificate.`
+						+ ` It might be related to the bug https://github.com/microsoft/vscode/issues/136787.`
+						+ ` Until vscode upgrades to Electron 16, it is recommended to use setting '"http.systemCertificates": false'`
+						+ `\nResolved link: ${uriStr}\n${result.requestError}`, "warning");
+				} else {
+					addDiagnostic(link, `Link check failed.\nResolved link: ${uriStr}\n${result.requestError}`, "error");
+				}
+			} else {
+				addDiagnostic(link, `Link check failed. Status: ${result.statusCode}\nResolved link: ${uriStr}`, "error");
+			}
+
+			if (result.countryCode) {
+				addDiagnostic(link, `Link contains a language reference: ${result.countryCode}`, "warning");
+			}
+
+		}
+	}
+
+}
+
+export function gatherLinkRefDiagnostics(
+	diag: LinkDiagnostic[],
+	linkRefs: MarkdownLinkRef[],
+	linkDefs: MarkdownLinkDef[],
+	options: LinkDiagnosticsOptions
+) {
+	return gatherRefDiagnostics(diag, linkRefs, linkDefs, options, {
+		duplicate: () => "Link with this name already defined",
+		firstDefinition: name => `First definition of '${name}'`,
+		notFound: name => `Link definition for '${name}' not found.\nIf this is not a link reference, consider bracket escaping '\\[' or using code block.`,
+		unused: name => `Link definition '${name}' is not used`,
+	});
+}
+
+export function gatherFootnoteDiagnostics(
+	diag: LinkDiagnostic[],
+	footnoteRefs: MarkdownFootnoteRef[],
+	footnoteDefs: MarkdownFootnoteDef[],
+	options: LinkDiagnosticsOptions
+) {
+	return gatherRefDiagnostics(diag, footnoteRefs, footnoteDefs, options, {
+		duplicate: () => "Footnote with this label already defined",
+		firstDefinition: name => `First definition of '^${name}'`,
+		notFound: name => `Footnote definition for '^${name}' not found.`,
+		unused: name => `Footnote '^${name}' is not used`,
+	});
+}
+
+interface RefDiagnosticMessages {
+	duplicate: () => string,
+	firstDefinition: (name: string) => string,
+	notFound: (name: string) => string,
+	unused: (name: string) => string,
+}
+
+function gatherRefDiagnostics(
+	diag: LinkDiagnostic[],
+	refs: Array<MarkdownLinkRef | MarkdownFootnoteRef>,
+	defs: Array<MarkdownLinkDef | MarkdownFootnoteDef>,
+	options: LinkDiagnosticsOptions,
+	messages: RefDiagnosticMessages
+) {
+
+	const unusedLinkDefinitionSeverity = options.unusedLinkDefinitionSeverity ?? "warning";
+
+	const addDiagnostic = (range: TextRange, message: string, linkedRange?: TextRange, linkedMessage?: string, severity: LinkDiagnosticSeverity = "error") => {
+		const d: LinkDiagnostic = { range, message, severity };
+		if (linkedRange && linkedMessage) {
+			d.related = { range: linkedRange, message: linkedMessage };
+		}
+
+		diag.push(d);
+	};
+
+	const defSet = new Map<string, MarkdownLinkDef | MarkdownFootnoteDef>();
+	for (const def of defs) {
+		const prev = defSet.get(def.name);
+		if (prev) {
+			addDiagnostic(
+				def.nameRange,
+				messages.duplicate(),
+				prev.nameRange,
+				messages.firstDefinition(def.name)
+			);
+		} else {
+			defSet.set(def.name, def);
+		}
+	}
+
+	for (const ref of refs) {
+		const def = defSet.get(ref.name);
+		if (!def) {
+			addDiagnostic(
+				ref.nameRange,
+				messages.notFound(ref.name),
+			);
+		}
+	}
+
+	if (unusedLinkDefinitionSeverity !== "none") {
+		for (const def of getUnusedLinkDefs(refs, defs)) {
+			diag.push({
+				range: def.nameRange,
+				message: messages.unused(def.name),
+				severity: unusedLinkDefinitionSeverity,
+				unnecessary: true,
+			});
+		}
+	}
+
+	return diag;
+}
+
+/**
+ * @returns link definitions that are not referenced in the document (except for duplicate definitions).
+ */
+export function getUnusedLinkDefs<TDef extends MarkdownLinkDef | MarkdownFootnoteDef>(
+	linkRefs: Array<MarkdownLinkRef | MarkdownFootnoteRef>,
+	linkDefs: TDef[]
+) {
+
+	const usedNames = new Set(linkRefs.map(r => r.name));
+	const definedNames = new Set<string>();
+
+	return linkDefs.filter(def => {
+		if (definedNames.has(def.name)) return false;
+
+		definedNames.add(def.name);
+		return !usedNames.has(def.name);
+	});
+}
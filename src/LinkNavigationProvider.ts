@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { Environment } from './Environment';
+import { DocumentStore } from './DocumentStore';
+import { getWorkspaceFolder } from './DocumentState';
+import { getFragmentLinks } from './headingRenames';
+import { isMarkdownPath, LinkSourceDocument, parseLineRangeFragment, parseLink } from './LinkChecker';
+import { MarkdownHeading, MarkdownLink } from './MarkdownParser';
+import { ParsedDocument } from './ParsedDocument';
+import { toVscodeRange, toVscodeUri } from './vscodeConverters';
+import { forEachWorkspaceDocumentLinks, readDocumentHeadings } from './workspaceMarkdown';
+
+/**
+ * Navigates from link references to link definitions and from local links to the linked files and headings.
+ * Finds all the references of the link definition and all the links to the heading across the workspace.
+ */
+export class LinkNavigationProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider {
+
+    constructor(
+        private readonly env: Environment,
+        private readonly documents: DocumentStore
+    ) {
+    }
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.Location | undefined> {
+
+        const parsed = this.documents.getOrOpenDocument(document)?.parseDocument();
+        if (!parsed) return undefined;
+
+        const linkRef = parsed.linkRefs.find(r => r.nameRange.contains(position));
+        if (linkRef) {
+            const linkDef = parsed.linkDefs.find(d => d.name === linkRef.name);
+            return linkDef && new vscode.Location(document.uri, toVscodeRange(linkDef.nameRange));
+        }
+
+        const link = parsed.links.find(l => l.addressRange.contains(position));
+        if (link) {
+            const target = await this.resolveLocalLink(document, link);
+            if (!target) return undefined;
+
+            if (target.heading) {
+                return new vscode.Location(target.uri, toVscodeRange(target.heading.range));
+            }
+
+            const lineRange = target.fragment ? parseLineRangeFragment(target.fragment) : undefined;
+            return new vscode.Location(target.uri, new vscode.Position(lineRange ? Math.max(0, lineRange.start - 1) : 0, 0));
+        }
+
+        return undefined;
+    }
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[] | undefined> {
+
+        const parsed = this.documents.getOrOpenDocument(document)?.parseDocument();
+        if (!parsed) return undefined;
+
+        const linkRefOrDef = parsed.linkRefs.find(r => r.nameRange.contains(position))
+            ?? parsed.linkDefs.find(d => d.nameRange.contains(position));
+
+        if (linkRefOrDef) {
+            return this.getLinkRefLocations(document, parsed, linkRefOrDef.name, context.includeDeclaration);
+        }
+
+        // links might be inside of headings or on the same line with HTML anchors
+        const link = parsed.links.find(l => l.addressRange.contains(position));
+        if (link) {
+            const target = await this.resolveLocalLink(document, link);
+            if (target?.heading) {
+                return this.getHeadingLocations(target.uri, target.heading, context.includeDeclaration, token);
+            }
+        }
+
+        const heading = parsed.headings.find(h => h.range.contains(position));
+        if (heading) {
+            return this.getHeadingLocations(document.uri, heading, context.includeDeclaration, token);
+        }
+
+        return undefined;
+    }
+
+    private getLinkRefLocations(document: vscode.TextDocument, parsed: ParsedDocument, name: string, includeDeclaration: boolean) {
+
+        const locations = parsed.linkRefs
+            .filter(r => r.name === name)
+            .map(r => new vscode.Location(document.uri, toVscodeRange(r.nameRange)));
+
+        if (includeDeclaration) {
+            for (const linkDef of parsed.linkDefs) {
+                if (linkDef.name === name) {
+                    locations.push(new vscode.Location(document.uri, toVscodeRange(linkDef.nameRange)));
+                }
+            }
+        }
+
+        return locations;
+    }
+
+    private async getHeadingLocations(
+        targetUri: vscode.Uri,
+        heading: MarkdownHeading,
+        includeDeclaration: boolean,
+        token: vscode.CancellationToken
+    ) {
+        const locations: vscode.Location[] = [];
+        if (includeDeclaration) {
+            locations.push(new vscode.Location(targetUri, toVscodeRange(heading.range)));
+        }
+
+        const slugifier = this.env.getSlugifier(targetUri);
+
+        await forEachWorkspaceDocumentLinks(this.env, targetUri, (linkSource, links) => {
+            for (const { link, slugged } of getFragmentLinks(links, linkSource, targetUri, slugifier)) {
+                if (slugged.equals(heading.slugged)) {
+                    locations.push(new vscode.Location(toVscodeUri(linkSource.uri), toVscodeRange(link.addressRange)));
+                }
+            }
+        }, token);
+
+        return locations;
+    }
+
+    /**
+     * @returns existing local file the link points to and the linked heading if the file is a markdown document.
+     */
+    private async resolveLocalLink(document: vscode.TextDocument, link: MarkdownLink) {
+
+        const linkSource: LinkSourceDocument = {
+            uri: document.uri,
+            workspaceFolder: getWorkspaceFolder(document.uri),
+            tryGetParsedDocument: () => undefined,
+        };
+
+        let uri;
+        try {
+            uri = parseLink(linkSource, link.address);
+        } catch {
+            return undefined;
+        }
+
+        if (!uri || uri.scheme !== "file") return undefined;
+
+        const fileUri = toVscodeUri(uri.with({ fragment: "", query: "" }));
+        try {
+            const stat = await vscode.workspace.fs.stat(fileUri);
+            if (stat.type & vscode.FileType.Directory) return undefined;
+        } catch {
+            return undefined;
+        }
+
+        let heading: MarkdownHeading | undefined;
+        if (uri.fragment && isMarkdownPath(fileUri.path)) {
+            const headings = await readDocumentHeadings(this.env, this.documents, fileUri);
+            const slugged = this.env.getSlugifier(fileUri).fromFragment(uri.fragment);
+            heading = headings?.find(h => h.slugged.equals(slugged));
+        }
+
+        return { uri: fileUri, fragment: uri.fragment, heading };
+    }
+}
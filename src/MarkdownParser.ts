@@ -1,29 +1,101 @@
-import * as vscode from 'vscode';
 import { IGrammar, IToken } from 'vscode-textmate';
-import { Slugifier, Slug } from './slugify';
+import { Slugifier, Slug, UniqueSlugger } from './slugify';
 import { GrammarProvider } from './textmate/GrammarProvider';
 import { getEmbeddedGrammarDescriptor, markdownScopeName } from './textmate/MarkdownGrammar';
+import { collectHtmlAnchors } from './htmlAnchors';
+import { collectRawLinks } from './rawLinks';
+
+export interface TextPosition {
+	line: number,
+	character: number,
+}
+
+/**
+ * Zero-based text range, the end is exclusive (same as `vscode.Range`).
+ */
+export class TextRange {
+	constructor(
+		public readonly start: TextPosition,
+		public readonly end: TextPosition,
+	) {
+	}
+
+	contains(position: TextPosition) {
+		return comparePositions(this.start, position) <= 0
+			&& comparePositions(position, this.end) <= 0;
+	}
+}
+
+export function comparePositions(a: TextPosition, b: TextPosition) {
+	return a.line === b.line
+		? a.character - b.character
+		: a.line - b.line;
+}
 
 export interface MarkdownLink {
-	addressRange: vscode.Range,
+	addressRange: TextRange,
 	address: string,
+	/**
+	 * Text of the address range if it differs from the address (raw HTML links with entities, `www.` bare URLs).
+	 * The address of such links can not be used to edit the document.
+	 */
+	rawAddress?: string,
 	isInline: boolean,
 }
 
 
 export interface MarkdownLinkRef {
-	nameRange: vscode.Range,
+	nameRange: TextRange,
 	name: string,
 }
 
 export interface MarkdownLinkDef {
-	nameRange: vscode.Range,
+	nameRange: TextRange,
+	name: string,
+	/** Range of the whole definition from `[` to the end of the destination or the title (that might be on the following lines) */
+	range: TextRange,
+}
+
+/**
+ * Footnote reference (`[^label]`), the name is the label without `^`.
+ */
+export interface MarkdownFootnoteRef {
+	nameRange: TextRange,
+	name: string,
+}
+
+/**
+ * Footnote definition (`[^label]: text`), the name is the label without `^`.
+ */
+export interface MarkdownFootnoteDef {
+	nameRange: TextRange,
 	name: string,
 }
 
+/**
+ * HTML comment block (`<!-- text -->`) starting at the beginning of the line.
+ */
+export interface MarkdownComment {
+	range: TextRange,
+	/** Comment content without delimiters */
+	text: string,
+}
+
+/**
+ * Fragment target of the document: heading (optionally with explicit `{#id}`)
+ * or HTML element with `id` (`<a>` with `name`).
+ */
 export interface MarkdownHeading {
+	/** Heading title without explicit id or HTML anchor id */
 	title: string,
+	/** Unique slug in the document (with the duplicate suffix, if any) without encoding */
+	slug: string,
 	slugged: Slug,
+	/** Range of the heading text (including explicit id and html), undefined for HTML anchors */
+	titleRange?: TextRange,
+	/** Range to navigate to: the heading text or the line containing the HTML anchor */
+	range: TextRange,
+	isHtmlAnchor?: true,
 }
 
 export interface MarkdownParsingResult {
@@ -31,17 +103,28 @@ export interface MarkdownParsingResult {
 	headings?: MarkdownHeading[],
 	linkRefs?: MarkdownLinkRef[],
 	linkDefs?: MarkdownLinkDef[],
+	footnoteRefs?: MarkdownFootnoteRef[],
+	footnoteDefs?: MarkdownFootnoteDef[],
+	comments?: MarkdownComment[],
 	lastNonEmptyLine: number,
 	endsWithLinkDef: boolean,
 }
 
+/**
+ * Minimal document interface required by the parser, `vscode.TextDocument` satisfies it.
+ */
+export interface TextDocumentLike {
+	readonly lineCount: number,
+	lineAt(line: number): { readonly text: string },
+}
+
 interface SlimDocument {
 
 	lineCount: number,
 	lineAt(index: number): string,
 }
 
-function makeSlimDocument(document: vscode.TextDocument | string): SlimDocument {
+function makeSlimDocument(document: TextDocumentLike | string): SlimDocument {
 	if (typeof document === "string") {
 		const splitted = document.split('\n');
 		return {
@@ -57,15 +140,21 @@ function makeSlimDocument(document: vscode.TextDocument | string): SlimDocument
 }
 
 export interface MarkdownParsingOptions {
+	/** Headings and HTML anchors */
 	parseHeadings?: boolean,
 	parseLinks?: boolean,
 	parseLinkRefs?: boolean,
 	parseLinkDefs?: boolean,
+	/** Footnote references and definitions */
+	parseFootnotes?: boolean,
+	parseComments?: boolean,
+	/** Slugifier for the headings of the document, the parser's one by default */
+	slugifier?: Slugifier,
 }
 
 export interface MarkdownParser {
 	parseDocument(
-		document: vscode.TextDocument | string,
+		document: TextDocumentLike | string,
 		options: MarkdownParsingOptions
 	): MarkdownParsingResult;
 }
@@ -100,34 +189,134 @@ export class GrammarMarkdownParser implements MarkdownParser {
 	}
 
 	parseDocument(
-		document: vscode.TextDocument | string,
+		document: TextDocumentLike | string,
 		options: MarkdownParsingOptions
 	): MarkdownParsingResult {
 
 		const grammar = this.grammar!;
 		const doc = makeSlimDocument(document);
+		const slugifier = options.slugifier ?? this.slugifier;
+		const slugger = new UniqueSlugger(slugifier);
 
 		const result: MarkdownParsingResult = {
 			headings: options.parseHeadings ? [] : undefined,
 			links: options.parseLinks ? [] : undefined,
 			linkRefs: options.parseLinkRefs ? [] : undefined,
 			linkDefs: options.parseLinkDefs ? [] : undefined,
+			footnoteRefs: options.parseFootnotes ? [] : undefined,
+			footnoteDefs: options.parseFootnotes ? [] : undefined,
+			comments: options.parseComments ? [] : undefined,
 			endsWithLinkDef: false,
 			lastNonEmptyLine: -1,
 		};
 
-		let lastNonEmptyToken;
+		// end line of the last link definition (not a footnote definition)
+		let lastLinkDefEndLine = -1;
+		let comment: { start: TextPosition, lines: string[] } | undefined;
 		let stack = null;
 		for (let lineIndex = 0; lineIndex < doc.lineCount; lineIndex++) {
 			const line = doc.lineAt(lineIndex);
 			const r = grammar.tokenizeLine(line, stack);
 			stack = r.ruleStack;
 
+			if (comment) {
+				comment.lines.push("");
+			}
+
+			// html outside of code, tokens of inline html are not scoped
+			let htmlCandidate = "";
+
+			// the grammar does not know footnotes, their definitions are tokenized as link definitions or references
+			const footnoteDefEnd = getFootnoteDefEnd(line, r.tokens);
+			if (footnoteDefEnd !== undefined && result.footnoteDefs) {
+				const labelStart = line.indexOf("[^") + 2;
+				result.footnoteDefs.push({
+					name: line.substring(labelStart, footnoteDefEnd - 2),
+					nameRange: new TextRange(
+						{ line: lineIndex, character: labelStart },
+						{ line: lineIndex, character: footnoteDefEnd - 2 },
+					),
+				});
+			}
+
+			/**
+			 * @returns true if the token is a link address, a link reference, a link definition or a footnote reference.
+			 */
+			const collectLinkToken = (index: number) => {
+				const token = r.tokens[index];
+
+				if (isLinkAddressToken(token)) {
+					result.links?.push({
+						address: line.substring(token.startIndex, token.endIndex),
+						addressRange: makeRange(lineIndex, token),
+						isInline: isInlineLink(token),
+					});
+				}
+
+				else if (isFootnoteRefToken(line, token)) {
+					result.footnoteRefs?.push({
+						name: line.substring(token.startIndex + 1, token.endIndex),
+						nameRange: new TextRange(
+							{ line: lineIndex, character: token.startIndex + 1 },
+							{ line: lineIndex, character: token.endIndex },
+						),
+					});
+				}
+
+				else if (isLinkRefNameToken(token) || isCollapsedLinkRefText(r.tokens, index)) {
+					result.linkRefs?.push({
+						name: line.substring(token.startIndex, token.endIndex),
+						nameRange: makeRange(lineIndex, token),
+					});
+				}
+
+				else if (isLinkDefNameToken(token)) {
+					const defEnd = getLinkDefEnd(doc, lineIndex, r.tokens);
+					lastLinkDefEndLine = defEnd.line;
+
+					result.linkDefs?.push({
+						name: line.substring(token.startIndex, token.endIndex),
+						nameRange: makeRange(lineIndex, token),
+						range: new TextRange({ line: lineIndex, character: token.startIndex - 1 }, defEnd),
+					});
+				}
+
+				else {
+					return false;
+				}
+
+				return true;
+			};
+
 			for (let i = 0; i < r.tokens.length; ++i) {
 				const token = r.tokens[i];
-				if (result.headings && isHeadingToken(token)) {
+				if (footnoteDefEnd !== undefined && (token.endIndex <= footnoteDefEnd || isLinkDefToken(token))) {
+					// label and text of the footnote definition are neither links nor link references
+				}
+
+				else if (result.comments && isCommentToken(token)) {
+
+					const tokenText = line.substring(token.startIndex, token.endIndex);
+					if (!comment) {
+						comment = { start: { line: lineIndex, character: token.startIndex }, lines: [""] };
+					}
+
+					comment.lines[comment.lines.length - 1] += tokenText;
+
+					if (tokenText === "-->" && isCommentPunctuationToken(token)) {
+						const text = comment.lines.join("\n").trim();
+						result.comments.push({
+							range: new TextRange(comment.start, { line: lineIndex, character: token.endIndex }),
+							text: text.slice(text.indexOf("<!--") + 4, -3).trim(),
+						});
+						comment = undefined;
+					}
+				}
+
+				else if (result.headings && isHeadingToken(token)) {
 
 					const start = token.startIndex;
+					const headingStartIndex = i;
 
 					// have to check consequent tokens in case of complex headings like "# q `w` e"
 					for(++i; i < r.tokens.length && isHeadingToken(r.tokens[i]); ++i);
@@ -135,58 +324,134 @@ export class GrammarMarkdownParser implements MarkdownParser {
 
 					const end = r.tokens[i].endIndex;
 
-					const title = line.substring(start, end);
+					for (let j = headingStartIndex; j <= i; ++j) {
+						collectLinkToken(j);
+					}
+
+					let title = line.substring(start, end);
+					let slug;
+
+					if (title.includes("<")) {
+						// anchors inside headings are common, renderers do not include html to the slug
+						htmlCandidate += title;
+						title = title.replace(htmlTagRe, "").trim();
+					}
+
+					const customIdMatch = title.match(customHeadingIdRe);
+					if (customIdMatch) {
+						title = title.substring(0, customIdMatch.index).trimEnd();
+						slug = slugger.reserve(customIdMatch[1]);
+					} else {
+						slug = slugger.slug(title);
+					}
+
+					const titleRange = new TextRange(
+						{ line: lineIndex, character: start },
+						{ line: lineIndex, character: end },
+					);
+
 					result.headings.push({
 						title,
-						slugged: this.slugifier.fromHeading(title),
+						slug,
+						slugged: slugifier.fromFragment(slug),
+						titleRange,
+						range: titleRange,
 					});
 				}
 
-				else if (result.links && isLinkAddressToken(token)) {
-					const address = line.substring(token.startIndex, token.endIndex);
-					result.links.push({
-						address,
-						addressRange: makeRange(lineIndex, token),
-						isInline: isInlineLink(token),
-					});
+				else if (!collectLinkToken(i) && result.headings && !isCodeToken(token) && !isCommentToken(token)) {
+					htmlCandidate += line.substring(token.startIndex, token.endIndex);
 				}
 
-				else if (result.linkRefs && isLinkRefNameToken(token)) {
-					const name = line.substring(token.startIndex, token.endIndex);
-					result.linkRefs.push({
-						name,
-						nameRange: makeRange(lineIndex, token),
-					});
+				if (!isEmptyToken(token)) {
+					result.lastNonEmptyLine = lineIndex;
 				}
+			}
 
-				else if (result.linkDefs && isLinkDefNameToken(token)) {
-					const name = line.substring(token.startIndex, token.endIndex);
-					result.linkDefs.push({
-						name,
-						nameRange: makeRange(lineIndex, token),
+			if (result.links) {
+				// raw html and bare urls, other tokens are replaced with spaces to keep the positions
+				const rawText = r.tokens
+					.map(t => isRawLinkTextToken(t) ? line.substring(t.startIndex, t.endIndex) : " ".repeat(t.endIndex - t.startIndex))
+					.join("");
+
+				for (const rawLink of collectRawLinks(rawText)) {
+					const rawAddress = line.substring(rawLink.start, rawLink.end);
+					result.links.push({
+						address: rawLink.address,
+						rawAddress: rawAddress !== rawLink.address ? rawAddress : undefined,
+						addressRange: new TextRange(
+							{ line: lineIndex, character: rawLink.start },
+							{ line: lineIndex, character: rawLink.end },
+						),
+						isInline: false,
 					});
 				}
+			}
 
-				if (!isEmptyToken(token)) {
-					result.lastNonEmptyLine = lineIndex;
-					lastNonEmptyToken = token;
+			if (result.headings && htmlCandidate.includes("<")) {
+				for (const anchor of collectHtmlAnchors(htmlCandidate)) {
+					result.headings.push({
+						title: anchor,
+						slug: anchor,
+						slugged: slugifier.fromFragment(anchor),
+						range: new TextRange(
+							{ line: lineIndex, character: 0 },
+							{ line: lineIndex, character: line.length },
+						),
+						isHtmlAnchor: true,
+					});
 				}
 			}
 
 			//console.debug((index + 1) + ": ", r.tokens.map(t => t.scopes.join(" ")));
 		}
 
-		result.endsWithLinkDef = lastNonEmptyToken && isLinkDefToken(lastNonEmptyToken) || false;
+		result.endsWithLinkDef = lastLinkDefEndLine !== -1 && lastLinkDefEndLine === result.lastNonEmptyLine;
 
 		return result;
 	}
 
 }
 
+const htmlTagRe = /<\/?[a-zA-Z][^>]*>/g;
+
+/** `## Heading {#custom-id}`, other attributes are allowed after the id */
+const customHeadingIdRe = /\s*\{#([^\s}]+)[^}]*\}\s*$/;
+
+/** `[^label]:` at the beginning of the line */
+const footnoteDefRe = /^ {0,3}\[\^[^\]\s]+\]:/;
+
+/**
+ * @returns end of the footnote definition label (after `]:`) if the line starts with the footnote definition.
+ */
+function getFootnoteDefEnd(line: string, tokens: IToken[]) {
+	const match = line.match(footnoteDefRe);
+	if (!match) return undefined;
+
+	const labelToken = tokens.find(t => t.startIndex <= match[0].length - 1 && match[0].length - 1 < t.endIndex);
+	if (!labelToken || isCodeToken(labelToken) || isCommentToken(labelToken)) return undefined;
+
+	return match[0].length;
+}
+
+/**
+ * Footnote reference `[^label]` is tokenized as the link reference.
+ */
+function isFootnoteRefToken(line: string, token: IToken) {
+	return (token.scopes.includes("meta.link.reference.markdown") || token.scopes.includes("meta.link.reference.shortcut.markdown"))
+		&& (token.scopes.includes("string.other.link.title.markdown") || token.scopes.includes("constant.other.reference.link.markdown"))
+		&& line[token.startIndex] === '^'
+		&& token.endIndex - token.startIndex > 1
+		&& !/\s/.test(line.substring(token.startIndex, token.endIndex))
+		&& line[token.startIndex - 1] === '['
+		&& line[token.endIndex] === ']'
+	;
+}
+
 function makeRange(lineIndex: number, token: IToken) {
-	return new vscode.Range(
-		new vscode.Position(lineIndex, token.startIndex),
-		new vscode.Position(lineIndex, token.endIndex),
+	return new TextRange(
+		{ line: lineIndex, character: token.startIndex },
+		{ line: lineIndex, character: token.endIndex },
 	);
 }
 
@@ -208,7 +473,7 @@ function isInlineLink(token: IToken) {
 function isLinkRefNameToken(token: IToken) {
 	return (
 			token.scopes.includes("constant.other.reference.link.markdown")
-			&& token.scopes.includes("meta.link.reference.markdown")
+			&& (token.scopes.includes("meta.link.reference.markdown") || token.scopes.includes("meta.image.reference.markdown"))
 		) || (
 			token.scopes.includes("meta.link.reference.shortcut.markdown")
 			&& token.scopes.includes("string.other.link.title.markdown")
@@ -216,6 +481,29 @@ function isLinkRefNameToken(token: IToken) {
 	;
 }
 
+/**
+ * Text of the collapsed reference link (`[name][]`, `![name][]`) is the link reference name.
+ */
+function isCollapsedLinkRefText(tokens: IToken[], index: number) {
+	const token = tokens[index];
+	const isRefText = token.scopes.includes("meta.link.reference.markdown") && token.scopes.includes("string.other.link.title.markdown")
+		|| token.scopes.includes("meta.image.reference.markdown") && token.scopes.includes("string.other.link.description.markdown");
+
+	// the text should be a single token to be the name
+	return isRefText
+		&& index > 0
+		&& index + 3 < tokens.length
+		&& hasScopePrefix(tokens[index - 1], "punctuation.definition.link.")
+		&& hasScopePrefix(tokens[index + 1], "punctuation.definition.link.")
+		&& hasScopePrefix(tokens[index + 2], "punctuation.definition.constant.")
+		&& hasScopePrefix(tokens[index + 3], "punctuation.definition.constant.")
+	;
+}
+
+function hasScopePrefix(token: IToken, prefix: string) {
+	return token.scopes.some(s => s.startsWith(prefix));
+}
+
 function isLinkDefNameToken(token: IToken) {
 	return token.scopes.includes("constant.other.reference.link.markdown")
 		&& token.scopes.includes("meta.link.reference.def.markdown")
@@ -226,6 +514,62 @@ function isLinkDefToken(token: IToken) {
 	return token.scopes.includes("meta.link.reference.def.markdown");
 }
 
+const linkDefTitleRe = /^\s*("[^"]*"|'[^']*'|\([^()]*\))\s*$/;
+const linkDefOpenTitleRe = /^\s*("[^"]*|'[^']*|\([^()]*)$/;
+
+/**
+ * The grammar tokenizes the link definition line only, but the title might be on the following lines.
+ * @returns end of the link definition starting at the line.
+ */
+function getLinkDefEnd(doc: SlimDocument, lineIndex: number, tokens: IToken[]): TextPosition {
+
+	const lineEnd = { line: lineIndex, character: doc.lineAt(lineIndex).trimEnd().length };
+	if (tokens.some(t => isLinkDefToken(t) && t.scopes.includes("string.other.link.description.title.markdown"))) {
+		return lineEnd;
+	}
+
+	// the title can not contain blank lines
+	let titleText = "";
+	for (let i = lineIndex + 1; i < doc.lineCount && doc.lineAt(i).trim().length !== 0; i++) {
+		const line = doc.lineAt(i);
+		titleText += "\n" + line;
+
+		if (linkDefTitleRe.test(titleText)) {
+			return { line: i, character: line.trimEnd().length };
+		}
+
+		if (!linkDefOpenTitleRe.test(titleText)) break;
+	}
+
+	return lineEnd;
+}
+
+function isCodeToken(token: IToken) {
+	return token.scopes.some(s =>
+		s.startsWith("markup.fenced_code.")
+		|| s.startsWith("markup.inline.raw.")
+		|| s.startsWith("markup.raw.")
+	);
+}
+
+/**
+ * Text that might contain raw HTML links and bare URLs (not code and not a part of a markdown link).
+ */
+function isRawLinkTextToken(token: IToken) {
+	return !isCodeToken(token)
+		&& !isCommentToken(token)
+		&& !token.scopes.some(s => s.startsWith("meta.link.") || s.startsWith("meta.image."))
+	;
+}
+
+function isCommentToken(token: IToken) {
+	return token.scopes.includes("comment.block.html");
+}
+
+function isCommentPunctuationToken(token: IToken) {
+	return token.scopes.includes("punctuation.definition.comment.html");
+}
+
 function isEmptyToken(token: IToken) {
 	return token.scopes.length <= 1;
 }
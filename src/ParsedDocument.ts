@@ -0,0 +1,51 @@
+import { URI } from 'vscode-uri';
+import { ParsedLinkedDocument } from './LinkChecker';
+import { MarkdownComment, MarkdownFootnoteDef, MarkdownFootnoteRef, MarkdownHeading, MarkdownLink, MarkdownLinkDef, MarkdownLinkRef, MarkdownParsingOptions, MarkdownParsingResult } from './MarkdownParser';
+import { Slug } from './slugify';
+
+export class ParsedDocument implements ParsedLinkedDocument {
+	constructor(
+		public readonly uri: URI,
+		public readonly documentVersion: number,
+		public readonly headings: MarkdownHeading[],
+		public readonly links: MarkdownLink[],
+		public readonly linkRefs: MarkdownLinkRef[],
+		public readonly linkDefs: MarkdownLinkDef[],
+		public readonly footnoteRefs: MarkdownFootnoteRef[],
+		public readonly footnoteDefs: MarkdownFootnoteDef[],
+		public readonly comments: MarkdownComment[],
+		public readonly lastNonEmptyLine: number,
+		public readonly endsWithLinkDef: boolean,
+	) {
+
+	}
+
+	static readonly parsingOptions: MarkdownParsingOptions = {
+		parseLinks: true,
+		parseHeadings: true,
+		parseLinkDefs: true,
+		parseLinkRefs: true,
+		parseFootnotes: true,
+		parseComments: true,
+	};
+
+	static fromParsingResult(uri: URI, documentVersion: number, parsingResult: MarkdownParsingResult) {
+		return new ParsedDocument(
+			uri,
+			documentVersion,
+			parsingResult.headings!,
+			parsingResult.links!,
+			parsingResult.linkRefs!,
+			parsingResult.linkDefs!,
+			parsingResult.footnoteRefs!,
+			parsingResult.footnoteDefs!,
+			parsingResult.comments!,
+			parsingResult.lastNonEmptyLine,
+			parsingResult.endsWithLinkDef,
+		);
+	}
+
+	hasSluggedHeading(heading: Slug) {
+		return this.headings.some(h => h.slugged.equals(heading));
+	}
+}
@@ -0,0 +1,137 @@
+export interface RequestSchedulerOptions {
+	/** Maximum number of concurrent requests to all the hosts */
+	maxConcurrentRequests?: number,
+	/** Maximum number of concurrent requests to the same host */
+	maxConcurrentRequestsPerHost?: number,
+	/** Minimum delay in milliseconds between starting requests to the same host */
+	hostRequestDelay?: number,
+}
+
+const defaultMaxConcurrentRequests = 16;
+const defaultMaxConcurrentRequestsPerHost = 4;
+
+/**
+ * Limits the number of concurrent requests globally and per host,
+ * keeps requests to the same host apart and allows to postpone
+ * all the requests to the host (for example, according to `Retry-After`).
+ * Requests are started in the order they were scheduled, if limits allow.
+ */
+export class RequestScheduler {
+
+	private readonly queue: ScheduledRequest[] = [];
+	private readonly hosts = new Map<string, HostState>();
+	private activeCount = 0;
+	private timer?: NodeJS.Timeout;
+	private timerTime = Infinity;
+
+	constructor(
+		private readonly optionsProvider: () => RequestSchedulerOptions
+	) {
+	}
+
+	schedule<T>(host: string, request: () => Promise<T>): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			this.queue.push({
+				host,
+				start: () => request().then(resolve, reject),
+			});
+			this.startRequests();
+		});
+	}
+
+	/**
+	 * Requests to the host will not be started until the specified time.
+	 * @param until Unix time in milliseconds.
+	 */
+	postpone(host: string, until: number) {
+		const state = this.getHostState(host);
+		state.blockedUntil = Math.max(state.blockedUntil, until);
+	}
+
+	private getHostState(host: string) {
+		let state = this.hosts.get(host);
+		if (!state) {
+			state = { activeCount: 0, lastStartTime: -Infinity, blockedUntil: -Infinity };
+			this.hosts.set(host, state);
+		}
+
+		return state;
+	}
+
+	private startRequests() {
+
+		const options = this.optionsProvider();
+		const maxConcurrent = positiveOrDefault(options.maxConcurrentRequests, defaultMaxConcurrentRequests);
+		const maxConcurrentPerHost = positiveOrDefault(options.maxConcurrentRequestsPerHost, defaultMaxConcurrentRequestsPerHost);
+		const hostDelay = options.hostRequestDelay ?? 0;
+
+		const now = Date.now();
+		let nextStartTime = Infinity;
+
+		for (let i = 0; i < this.queue.length && this.activeCount < maxConcurrent;) {
+			const request = this.queue[i];
+			const host = this.getHostState(request.host);
+
+			if (host.activeCount >= maxConcurrentPerHost) {
+				++i;
+				continue;
+			}
+
+			const readyTime = Math.max(host.blockedUntil, host.lastStartTime + hostDelay);
+			if (readyTime > now) {
+				nextStartTime = Math.min(nextStartTime, readyTime);
+				++i;
+				continue;
+			}
+
+			this.queue.splice(i, 1);
+			this.start(request, host, now);
+		}
+
+		if (nextStartTime !== Infinity) {
+			this.wakeUpAt(nextStartTime, now);
+		}
+	}
+
+	private start(request: ScheduledRequest, host: HostState, now: number) {
+		++this.activeCount;
+		++host.activeCount;
+		host.lastStartTime = now;
+
+		request.start().finally(() => {
+			--this.activeCount;
+			--host.activeCount;
+			this.startRequests();
+		});
+	}
+
+	private wakeUpAt(time: number, now: number) {
+		if (this.timer && this.timerTime <= time) return;
+
+		if (this.timer) {
+			clearTimeout(this.timer);
+		}
+
+		this.timerTime = time;
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			this.timerTime = Infinity;
+			this.startRequests();
+		}, time - now);
+	}
+}
+
+interface ScheduledRequest {
+	host: string,
+	start: () => Promise<void>,
+}
+
+interface HostState {
+	activeCount: number,
+	lastStartTime: number,
+	blockedUntil: number,
+}
+
+function positiveOrDefault(value: number | undefined, defaultValue: number) {
+	return value !== undefined && value > 0 ? value : defaultValue;
+}
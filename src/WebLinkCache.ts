@@ -0,0 +1,185 @@
+import { normalizeWebUrl, RedirectHop, UrlCheckResult } from './LinkChecker';
+
+/**
+ * Web link check result in the form that survives sessions.
+ */
+export interface PersistedWebLinkResult {
+	url: string,
+	statusCode: number,
+	alive: boolean,
+	redirectUrl?: string,
+	redirects?: RedirectHop[],
+	consecutiveFailures?: number,
+	anchors?: string[],
+	authScheme?: string,
+	/** Unix time in milliseconds */
+	checkTime: number,
+}
+
+export interface WebLinkCacheStorage {
+	get(): PersistedWebLinkResult[] | undefined;
+	set(results: PersistedWebLinkResult[]): PromiseLike<void>;
+}
+
+const saveDelay = 1000;
+
+/**
+ * Web link check results shared between all the documents.
+ * Keyed by the normalized URL without fragment,
+ * so the same address is requested only once per TTL, even if it is being requested right now.
+ */
+export class WebLinkCache {
+
+	private readonly entries = new Map<string, WebLinkCacheEntry>();
+
+	constructor(
+		/** TTL in milliseconds */
+		private readonly ttlProvider: () => number,
+		private readonly storage?: WebLinkCacheStorage
+	) {
+		this.load();
+	}
+
+	/**
+	 * @param withAnchors results with page anchors are cached separately,
+	 * because they require the page content instead of just status.
+	 */
+	getOrAdd(url: string, check: () => Promise<UrlCheckResult>, withAnchors = false): Promise<UrlCheckResult> {
+
+		const key = getKey(url, withAnchors);
+		const existing = this.entries.get(key);
+		if (existing) {
+			// still running
+			if (existing.checkTime === undefined) {
+				return existing.resultPromise;
+			}
+
+			if (Date.now() - existing.checkTime <= this.ttlProvider()) {
+				return existing.resultPromise;
+			}
+		}
+
+		const entry: WebLinkCacheEntry = {
+			resultPromise: check(),
+		};
+
+		entry.resultPromise.then(
+			result => {
+				entry.checkTime = Date.now();
+				entry.result = result;
+				this.scheduleSave();
+			},
+			() => {
+				if (this.entries.get(key) === entry) {
+					this.entries.delete(key);
+				}
+			}
+		);
+
+		this.entries.set(key, entry);
+		return entry.resultPromise;
+	}
+
+	invalidate(url: string) {
+		let key;
+		try {
+			key = getKey(url, false);
+		} catch {
+			return;
+		}
+
+		const deleted = this.entries.delete(key);
+		if (this.entries.delete(getKey(url, true)) || deleted) {
+			this.scheduleSave();
+		}
+	}
+
+	async clear() {
+		this.entries.clear();
+		await this.save();
+	}
+
+	private load() {
+		const persisted = this.storage?.get();
+		if (!persisted) return;
+
+		const now = Date.now();
+		const ttl = this.ttlProvider();
+		for (const item of persisted) {
+			if (now - item.checkTime > ttl) continue;
+
+			const result: UrlCheckResult = {
+				err: undefined,
+				alive: item.alive,
+				statusCode: item.statusCode,
+				redirectUrl: item.redirectUrl,
+				redirects: item.redirects,
+				consecutiveFailures: item.consecutiveFailures,
+				anchors: item.anchors,
+				authScheme: item.authScheme,
+				checkTime: item.checkTime,
+			};
+
+			this.entries.set(item.url, {
+				resultPromise: Promise.resolve(result),
+				result,
+				checkTime: item.checkTime,
+			});
+		}
+	}
+
+	private saveTimer?: NodeJS.Timeout;
+
+	private scheduleSave() {
+		if (!this.storage || this.saveTimer) return;
+
+		this.saveTimer = setTimeout(() => {
+			this.save().catch(err => console.error("web link cache saving failed", err));
+		}, saveDelay);
+	}
+
+	private async save() {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = undefined;
+		}
+
+		if (!this.storage) return;
+
+		const now = Date.now();
+		const ttl = this.ttlProvider();
+		const persisted: PersistedWebLinkResult[] = [];
+		for (const [url, entry] of this.entries) {
+			// network errors are usually transient, so they are not persisted
+			if (!entry.result || entry.checkTime === undefined || entry.result.statusCode === 0) continue;
+			if (now - entry.checkTime > ttl) continue;
+
+			persisted.push({
+				url,
+				statusCode: entry.result.statusCode,
+				alive: entry.result.alive,
+				redirectUrl: entry.result.redirectUrl,
+				redirects: entry.result.redirects,
+				consecutiveFailures: entry.result.consecutiveFailures,
+				anchors: entry.result.anchors,
+				authScheme: entry.result.authScheme,
+				checkTime: entry.checkTime,
+			});
+		}
+
+		await this.storage.set(persisted);
+	}
+}
+
+interface WebLinkCacheEntry {
+	resultPromise: Promise<UrlCheckResult>,
+	result?: UrlCheckResult,
+	/** Unix time in milliseconds, undefined while in progress */
+	checkTime?: number,
+}
+
+function getKey(url: string, withAnchors: boolean) {
+	const key = normalizeWebUrl(url);
+	// normalized URL never ends with '#', so keys do not intersect
+	return withAnchors ? key + "#" : key;
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { Environment } from './Environment';
+import { DocumentStore } from './DocumentStore';
+import { getWorkspaceFolder } from './DocumentState';
+import { LinkSourceDocument } from './LinkChecker';
+import { checkDocumentLinks } from './LinkDiagnostics';
+import { ParsedDocument } from './ParsedDocument';
+import { toVscodeDiagnostic } from './vscodeConverters';
+import { findOpenedDocument, findWorkspaceMarkdownFiles } from './workspaceMarkdown';
+
+export class WorkspaceLinkChecker {
+
+    constructor(
+        private readonly env: Environment,
+        private readonly documents: DocumentStore
+    ) {
+    }
+
+    checkWorkspace = () => {
+        return vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: "Checking markdown links",
+                cancellable: true,
+            },
+            (progress, token) => this.checkWorkspaceCore(progress, token)
+        );
+    };
+
+    private async checkWorkspaceCore(
+        progress: vscode.Progress<{ message?: string, increment?: number }>,
+        token: vscode.CancellationToken
+    ) {
+        const files = await findWorkspaceMarkdownFiles(this.env, token);
+
+        let checkedCount = 0;
+        let problemCount = 0;
+
+        for (const uri of files) {
+            if (token.isCancellationRequested) break;
+
+            progress.report({
+                message: `${vscode.workspace.asRelativePath(uri)} (${checkedCount + 1}/${files.length})`,
+                increment: 100 / files.length,
+            });
+
+            try {
+                await this.checkFile(uri);
+            } catch (err) {
+                console.error(`workspace link check failed. doc: ${uri}`, err);
+            }
+
+            checkedCount++;
+            problemCount += this.env.diagnostics.get(uri)?.length ?? 0;
+        }
+
+        const summary = token.isCancellationRequested
+            ? `Link check cancelled. Checked ${checkedCount} of ${files.length} markdown files, found ${problemCount} problems.`
+            : `Checked ${checkedCount} markdown files, found ${problemCount} problems.`;
+
+        const showProblemsChoice = "Show problems";
+        const choice = problemCount > 0
+            ? await vscode.window.showInformationMessage(summary, showProblemsChoice)
+            : await vscode.window.showInformationMessage(summary);
+
+        if (choice === showProblemsChoice) {
+            await vscode.commands.executeCommand("workbench.actions.view.problems");
+        }
+    }
+
+    private async checkFile(uri: vscode.Uri) {
+
+        const uriStr = uri.toString();
+        const openedDocument = findOpenedDocument(uri);
+        if (openedDocument) {
+            // opened documents are checked by their own states
+            // to keep the live recheck subscriptions consistent
+            const state = this.documents.getOrOpenDocument(openedDocument);
+            if (state) {
+                await state.processDocument(true);
+                return;
+            }
+        }
+
+        const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+        const parsingResult = this.env.parser.parseDocument(content, {
+            ...ParsedDocument.parsingOptions,
+            slugifier: this.env.getSlugifier(uri),
+        });
+        const parsed = ParsedDocument.fromParsingResult(uri, 0, parsingResult);
+
+        const sourceDocument: LinkSourceDocument = {
+            uri,
+            workspaceFolder: getWorkspaceFolder(uri),
+            tryGetParsedDocument: (linkedUri) => {
+                if (linkedUri.toString() === uriStr) {
+                    return parsed;
+                } else {
+                    return this.documents.tryGetParsedDocument(linkedUri);
+                }
+            },
+        };
+
+        const diag = await checkDocumentLinks(this.env.linkChecker, sourceDocument, parsed, this.env.configuration);
+        this.env.diagnostics.set(uri, diag.map(d => toVscodeDiagnostic(d, uri)));
+    }
+}
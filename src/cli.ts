@@ -0,0 +1,301 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import glob from 'glob';
+import { URI } from 'vscode-uri';
+import { HostCredentialsProvider, LinkCheckerOptions, LinkSourceDocument, MainLinkChecker } from './LinkChecker';
+import { checkDocumentLinks, LinkDiagnostic, LinkDiagnosticsOptions, LinkDiagnosticSeverity } from './LinkDiagnostics';
+import { comparePositions, GrammarMarkdownParser } from './MarkdownParser';
+import { ParsedDocument } from './ParsedDocument';
+import { githubSlugifier, selectSlugifier, SlugOptions, SlugProfile, slugifiers } from './slugify';
+import { WebLinkCache } from './WebLinkCache';
+
+const usage = `Usage: md-link-checker [options] <glob...>
+
+Checks links in the markdown files matching the globs
+and exits with non-zero code if any link check fails.
+
+Options:
+  --root <dir>                  Folder to resolve root-relative links ('/path') against.
+                                Current directory by default.
+  --country-code-regex <regex>  Regular expression to parse country codes from the URL
+                                that should produce warnings.
+  --max-concurrent-requests <n>
+                                Maximum number of concurrent web link requests (16 by default).
+  --max-concurrent-requests-per-host <n>
+                                Maximum number of concurrent web link requests to the same host
+                                (4 by default).
+  --host-request-delay <ms>     Minimum delay between web link requests to the same host.
+  --request-timeout <ms>        Web link request timeout (10000 by default).
+  --request-retries <n>         Number of web link request retries on network errors
+                                and 5xx responses (2 by default).
+  --permanent-redirect-severity <error|warning|information|hint|none>
+                                Severity of permanently redirected links ('information' by default).
+  --unused-link-definition-severity <error|warning|information|hint|none>
+                                Severity of link definitions and footnotes not referenced
+                                in the document ('warning' by default).
+  --ignore-link <regex>         Regular expression of link addresses to skip. Can be repeated.
+  --accepted-status-codes <host>=<codes>
+                                Comma separated web response status codes to consider successful
+                                for the host ('*' for all the hosts), e.g. '*=403,429'. Can be repeated.
+  --no-web-links                Do not check http/https links.
+  --no-file-links               Do not check local file links.
+  --no-fragments                Do not check link fragments.
+  --non-markdown-fragments <ignore|report>
+                                How to treat fragments of non-markdown files other than line ranges
+                                ('#L10-L20'), 'ignore' by default.
+  --case-sensitive-paths        Report local links which path case does not match the actual file path
+                                even on case-insensitive file systems.
+  --slug-profile <profile>      Heading anchors generation rules of the markdown renderer:
+                                ${Object.keys(slugifiers).join(", ")} ('github' by default).
+  --slug-profile-override <glob>=<profile>
+                                Slug profile for the files matching the glob relative to the root.
+                                Can be repeated, the first matching glob is used.
+  -h, --help                    Show this help.
+
+Environment variables:
+  MD_LINK_CHECKER_HOST_CREDENTIALS  JSON object with authorization strings per host,
+                                    e.g. '{"dev.azure.com": "Basic dXNlcjpwYXNz"}'.
+`;
+
+const hostCredentialsEnvVariable = "MD_LINK_CHECKER_HOST_CREDENTIALS";
+
+interface CliOptions extends LinkCheckerOptions, LinkDiagnosticsOptions, SlugOptions {
+	patterns: string[],
+	root: string,
+}
+
+class CliUsageError extends Error {
+}
+
+const severities = ["error", "warning", "information", "hint", "none"];
+
+function parseArgs(args: string[]): CliOptions | undefined {
+
+	const options: CliOptions = {
+		patterns: [],
+		root: process.cwd(),
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+
+		const getValue = () => {
+			const value = args[++i];
+			if (value === undefined) {
+				throw new CliUsageError(`Value expected for '${arg}'`);
+			}
+			return value;
+		};
+
+		const getSlugProfile = (value: string) => {
+			if (!Object.keys(slugifiers).includes(value)) {
+				throw new CliUsageError(`One of ${Object.keys(slugifiers).join(", ")} expected for '${arg}'`);
+			}
+			return value as SlugProfile;
+		};
+
+		const getNumber = () => {
+			const value = Number(getValue());
+			if (isNaN(value) || value < 0) {
+				throw new CliUsageError(`Non-negative number expected for '${arg}'`);
+			}
+			return value;
+		};
+
+		if (arg === "-h" || arg === "--help") {
+			return undefined;
+		} else if (arg === "--root") {
+			options.root = path.resolve(getValue());
+		} else if (arg === "--country-code-regex") {
+			options.countryCodeRegex = getValue();
+		} else if (arg === "--max-concurrent-requests") {
+			options.maxConcurrentRequests = getNumber();
+		} else if (arg === "--max-concurrent-requests-per-host") {
+			options.maxConcurrentRequestsPerHost = getNumber();
+		} else if (arg === "--host-request-delay") {
+			options.hostRequestDelay = getNumber();
+		} else if (arg === "--request-timeout") {
+			options.requestTimeout = getNumber();
+		} else if (arg === "--request-retries") {
+			options.requestRetries = getNumber();
+		} else if (arg === "--permanent-redirect-severity") {
+			const value = getValue();
+			if (!severities.includes(value)) {
+				throw new CliUsageError(`One of ${severities.join(", ")} expected for '${arg}'`);
+			}
+			options.permanentRedirectSeverity = value as LinkDiagnosticSeverity | "none";
+		} else if (arg === "--unused-link-definition-severity") {
+			const value = getValue();
+			if (!severities.includes(value)) {
+				throw new CliUsageError(`One of ${severities.join(", ")} expected for '${arg}'`);
+			}
+			options.unusedLinkDefinitionSeverity = value as LinkDiagnosticSeverity | "none";
+		} else if (arg === "--ignore-link") {
+			const value = getValue();
+			let pattern;
+			try {
+				pattern = new RegExp(value);
+			} catch {
+				throw new CliUsageError(`Invalid regular expression '${value}' for '${arg}'`);
+			}
+			(options.ignoreLinks ??= []).push(pattern);
+		} else if (arg === "--accepted-status-codes") {
+			const match = getValue().match(/^([^=]+)=(\d+(?:,\d+)*)$/);
+			if (!match) {
+				throw new CliUsageError(`<host>=<codes> expected for '${arg}'`);
+			}
+			const accepted = options.acceptedStatusCodes ??= {};
+			accepted[match[1]] = [...(accepted[match[1]] ?? []), ...match[2].split(",").map(Number)];
+		} else if (arg === "--non-markdown-fragments") {
+			const value = getValue();
+			if (value !== "ignore" && value !== "report") {
+				throw new CliUsageError(`One of ignore, report expected for '${arg}'`);
+			}
+			options.nonMarkdownFragments = value;
+		} else if (arg === "--case-sensitive-paths") {
+			options.caseSensitivePaths = true;
+		} else if (arg === "--slug-profile") {
+			options.slugProfile = getSlugProfile(getValue());
+		} else if (arg === "--slug-profile-override") {
+			const match = getValue().match(/^(.+)=([^=]+)$/);
+			if (!match) {
+				throw new CliUsageError(`<glob>=<profile> expected for '${arg}'`);
+			}
+			(options.slugProfileOverrides ??= {})[match[1]] = getSlugProfile(match[2]);
+		} else if (arg === "--no-web-links") {
+			options.checkWebLinks = false;
+		} else if (arg === "--no-file-links") {
+			options.checkFileLinks = false;
+		} else if (arg === "--no-fragments") {
+			options.checkFragments = false;
+		} else if (arg.startsWith("-")) {
+			throw new CliUsageError(`Unknown option '${arg}'`);
+		} else {
+			options.patterns.push(arg);
+		}
+	}
+
+	if (options.patterns.length === 0) {
+		throw new CliUsageError("At least one glob expected");
+	}
+
+	return options;
+}
+
+class EnvHostCredentials implements HostCredentialsProvider {
+
+	private readonly creds: Partial<Record<string, string | null>>;
+
+	constructor(raw: string | undefined) {
+		this.creds = raw ? JSON.parse(raw) : {};
+	}
+
+	tryGet(host: string) {
+		return Promise.resolve(this.creds[host]);
+	}
+
+	requestNew(host: string) {
+		// there is nobody to ask
+		return Promise.resolve(undefined);
+	}
+}
+
+function findFiles(patterns: string[]) {
+	const files = new Set<string>();
+	for (const pattern of patterns) {
+		for (const file of glob.sync(pattern, { nodir: true, absolute: true, ignore: "**/node_modules/**" })) {
+			files.add(path.normalize(file));
+		}
+	}
+
+	return [...files].sort();
+}
+
+function formatDiagnostic(file: string, diagnostic: LinkDiagnostic) {
+	const { line, character } = diagnostic.range.start;
+	const message = diagnostic.message.replace(/\n/g, "\n    ");
+	return `${path.relative(process.cwd(), file)}:${line + 1}:${character + 1} - ${diagnostic.severity}: ${message}`;
+}
+
+async function main(args: string[]) {
+
+	let options: CliOptions | undefined;
+	try {
+		options = parseArgs(args);
+	} catch (err) {
+		if (err instanceof CliUsageError) {
+			console.error(`${err.message}\n\n${usage}`);
+			return 2;
+		}
+		throw err;
+	}
+
+	if (!options) {
+		console.log(usage);
+		return 0;
+	}
+
+	const files = findFiles(options.patterns);
+	if (files.length === 0) {
+		console.error(`No files found matching ${options.patterns.map(p => `'${p}'`).join(", ")}`);
+		return 2;
+	}
+
+	const workspaceFolder = URI.file(options.root);
+	const slugifierProvider = (uri: URI) => selectSlugifier(options!, uri, workspaceFolder);
+
+	const parser = new GrammarMarkdownParser(githubSlugifier);
+	await parser.initialize();
+
+	const linkChecker = new MainLinkChecker(
+		() => options!,
+		slugifierProvider,
+		parser,
+		new EnvHostCredentials(process.env[hostCredentialsEnvVariable]),
+		// the same web links from different files are checked once during the run
+		new WebLinkCache(() => Infinity)
+	);
+
+	let errorCount = 0;
+	let warningCount = 0;
+
+	for (const file of files) {
+		const uri = URI.file(file);
+		const content = await fs.promises.readFile(file, "utf8");
+		const parsingResult = parser.parseDocument(content, { ...ParsedDocument.parsingOptions, slugifier: slugifierProvider(uri) });
+		const parsed = ParsedDocument.fromParsingResult(uri, 0, parsingResult);
+
+		const document: LinkSourceDocument = {
+			uri,
+			workspaceFolder,
+			tryGetParsedDocument: (linkedUri) => linkedUri.toString() === uri.toString() ? parsed : undefined,
+		};
+
+		const diagnostics = await checkDocumentLinks(linkChecker, document, parsed, options);
+		diagnostics.sort((a, b) => comparePositions(a.range.start, b.range.start));
+		for (const diagnostic of diagnostics) {
+			if (diagnostic.severity === "error") {
+				++errorCount;
+			} else if (diagnostic.severity === "warning") {
+				++warningCount;
+			}
+
+			console.log(formatDiagnostic(file, diagnostic));
+		}
+	}
+
+	console.log(`\nChecked ${files.length} files: ${errorCount} errors, ${warningCount} warnings.`);
+
+	return errorCount > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+	exitCode => {
+		process.exitCode = exitCode;
+	},
+	err => {
+		console.error(err);
+		process.exitCode = 2;
+	}
+);
@@ -2,6 +2,12 @@ import * as vscode from 'vscode';
 
 import { Environment } from './Environment';
 import { DocumentStore } from './DocumentStore';
+import { DocumentState, organizeLinkDefsCodeActionKind, recheckLinkCommand } from './DocumentState';
+import { WorkspaceLinkChecker } from './WorkspaceLinkChecker';
+import { FileRenameLinkUpdater } from './FileRenameLinkUpdater';
+import { HeadingRenameLinkUpdater } from './HeadingRenameLinkUpdater';
+import { LinkCompletionProvider, linkCompletionTriggerCharacters } from './LinkCompletionProvider';
+import { LinkNavigationProvider } from './LinkNavigationProvider';
 
 
 
@@ -21,6 +27,11 @@ export async function activate(ctx: vscode.ExtensionContext) {
         env.hostCredentials.manage();
     }));
 
+    ctx.subscriptions.push(vscode.commands.registerCommand("mdLinkChecker.clearCache", async () => {
+        await env.webLinkCache.clear();
+        vscode.window.showInformationMessage("Link check cache cleared.");
+    }));
+
     const documents = new DocumentStore(env);
     ctx.subscriptions.push(documents);
 
@@ -33,6 +44,29 @@ export async function activate(ctx: vscode.ExtensionContext) {
         }
     }));
 
+    ctx.subscriptions.push(vscode.commands.registerCommand(recheckLinkCommand, async (documentUri: string, link: string) => {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === documentUri);
+        const state = document && documents.getOrOpenDocument(document);
+        if (state) {
+            await state.recheckLink(link);
+        }
+    }));
+
+    const registerDocumentEditCommand = (command: string, getEdit: (state: DocumentState, editor: vscode.TextEditor) => vscode.WorkspaceEdit | undefined) => {
+        ctx.subscriptions.push(vscode.commands.registerCommand(command, async () => {
+            const editor = vscode.window.activeTextEditor;
+            const state = editor && editor.document.languageId === "markdown" && documents.getOrOpenDocument(editor.document);
+            const edit = state && getEdit(state, editor);
+            if (edit) {
+                await vscode.workspace.applyEdit(edit);
+            }
+        }));
+    };
+
+    registerDocumentEditCommand("mdLinkChecker.inlineLinkReference", (state, editor) => state.inlineLinkRefAt(editor.selection.active));
+    registerDocumentEditCommand("mdLinkChecker.extractInlineLinks", (state) => state.extractInlineLinks());
+    registerDocumentEditCommand("mdLinkChecker.organizeLinkDefinitions", (state) => state.organizeLinkDefs());
+
     ctx.subscriptions.push(vscode.commands.registerCommand("mdLinkChecker.recheckOpenedDocuments", async () => {
         const document = vscode.window.activeTextEditor?.document;
         if (document) {
@@ -40,6 +74,12 @@ export async function activate(ctx: vscode.ExtensionContext) {
         }
     }));
 
+    const workspaceChecker = new WorkspaceLinkChecker(env, documents);
+    ctx.subscriptions.push(vscode.commands.registerCommand("mdLinkChecker.checkWorkspace", workspaceChecker.checkWorkspace));
+
+    const fileRenameLinkUpdater = new FileRenameLinkUpdater(env);
+    ctx.subscriptions.push(vscode.workspace.onWillRenameFiles(fileRenameLinkUpdater.onWillRenameFiles));
+
 
     ctx.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
         if (event.affectsConfiguration("mdLinkChecker")) {
@@ -68,19 +108,31 @@ export async function activate(ctx: vscode.ExtensionContext) {
         }
     }));
 
+    const headingRenameLinkUpdater = new HeadingRenameLinkUpdater(env);
+
     ctx.subscriptions.push(vscode.languages.registerRenameProvider(mdDocSelector, {
-        provideRenameEdits: (doc, pos, newName) => {
+        provideRenameEdits: async (doc, pos, newName) => {
             const state = documents.getOrOpenDocument(doc);
             if (state) {
-                return state.renameLinkRefNameAt(pos, newName);
-            } else {
-                return undefined;
+                const footnoteEdit = state.renameFootnoteAt(pos, newName);
+                if (footnoteEdit) return footnoteEdit;
+
+                const linkRefEdit = state.renameLinkRefNameAt(pos, newName);
+                if (linkRefEdit) return linkRefEdit;
+
+                const headingRename = state.renameHeadingAt(pos, newName);
+                if (headingRename) {
+                    await headingRenameLinkUpdater.addLinkUpdates(headingRename.edit, doc.uri, headingRename.slugRenames);
+                    return headingRename.edit;
+                }
             }
+
+            return undefined;
         },
         prepareRename: (doc, pos) => {
             const state = documents.getOrOpenDocument(doc);
             if (state) {
-                const range = state.canRenameLinkRefNameAt(pos);
+                const range = state.canRenameFootnoteAt(pos) ?? state.canRenameLinkRefNameAt(pos) ?? state.canRenameHeadingAt(pos);
                 if (range) return range;
             }
 
@@ -90,11 +142,35 @@ export async function activate(ctx: vscode.ExtensionContext) {
         }
     }));
 
+    ctx.subscriptions.push(vscode.languages.registerHoverProvider(mdDocSelector, {
+        provideHover: (doc, pos) => {
+            const state = documents.getOrOpenDocument(doc);
+            return state?.getHover(pos);
+        }
+    }));
+
+    ctx.subscriptions.push(vscode.languages.registerCompletionItemProvider(
+        mdDocSelector,
+        new LinkCompletionProvider(env, documents),
+        ...linkCompletionTriggerCharacters
+    ));
+
+    const linkNavigationProvider = new LinkNavigationProvider(env, documents);
+    ctx.subscriptions.push(vscode.languages.registerDefinitionProvider(mdDocSelector, linkNavigationProvider));
+    ctx.subscriptions.push(vscode.languages.registerReferenceProvider(mdDocSelector, linkNavigationProvider));
+
     ctx.subscriptions.push(vscode.languages.registerCodeActionsProvider(mdDocSelector, {
         provideCodeActions: (doc, range, context) => {
             const state = documents.getOrOpenDocument(doc);
             return state?.getCodeActions(range, context);
         }
+    }, {
+        providedCodeActionKinds: [
+            vscode.CodeActionKind.QuickFix,
+            vscode.CodeActionKind.RefactorInline,
+            vscode.CodeActionKind.RefactorExtract,
+            organizeLinkDefsCodeActionKind,
+        ]
     }));
 
     console.log("md-link-checker is active");
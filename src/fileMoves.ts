@@ -0,0 +1,103 @@
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { LinkSourceDocument, parseLink } from './LinkChecker';
+
+export interface FileMove {
+	oldUri: URI,
+	newUri: URI,
+}
+
+/**
+ * @returns new location of the file or folder if it is moved itself or is inside of the moved folder.
+ */
+export type MovedUriMapper = (uri: URI) => URI | undefined;
+
+export function createMovedUriMapper(moves: readonly FileMove[]): MovedUriMapper {
+	return (uri) => {
+		for (const { oldUri, newUri } of moves) {
+			if (uri.scheme !== oldUri.scheme || uri.authority !== oldUri.authority) continue;
+
+			if (uri.path === oldUri.path) {
+				return newUri;
+			}
+
+			if (uri.path.startsWith(oldUri.path + "/")) {
+				return newUri.with({ path: newUri.path + uri.path.slice(oldUri.path.length) });
+			}
+		}
+
+		return undefined;
+	};
+}
+
+const angleBracketLinkRe = /^<(.*)>$/;
+const encodedCharRe = /%[0-9a-fA-F]{2}/;
+
+/**
+ * Computes the address of the local link that keeps pointing to the same file
+ * after the link target and/or the document containing the link are moved.
+ * @param newDocumentUri new location of the document containing the link.
+ * @returns undefined if the link does not have to be changed.
+ */
+export function getMovedLinkAddress(
+	address: string,
+	document: LinkSourceDocument,
+	newDocumentUri: URI,
+	mapUri: MovedUriMapper
+): string | undefined {
+
+	const bracketMatch = address.match(angleBracketLinkRe);
+	const cleanAddress = bracketMatch ? bracketMatch[1] : address;
+
+	const hashIndex = cleanAddress.indexOf('#');
+	const pathAndQuery = hashIndex === -1 ? cleanAddress : cleanAddress.substring(0, hashIndex);
+	const fragmentPart = hashIndex === -1 ? "" : cleanAddress.substring(hashIndex);
+
+	const queryIndex = pathAndQuery.indexOf('?');
+	const pathPart = queryIndex === -1 ? pathAndQuery : pathAndQuery.substring(0, queryIndex);
+	const queryPart = queryIndex === -1 ? "" : pathAndQuery.substring(queryIndex);
+
+	// links inside the same document
+	if (pathPart.length === 0) return undefined;
+
+	let target;
+	try {
+		target = parseLink(document, cleanAddress);
+	} catch {
+		return undefined;
+	}
+
+	// explicit 'file:' links are absolute
+	if (!target || target.scheme !== "file" || cleanAddress.toLowerCase().startsWith("file:")) return undefined;
+
+	target = target.with({ fragment: "", query: "" });
+	const newTarget = mapUri(target);
+	const documentMoved = newDocumentUri.toString() !== document.uri.toString();
+
+	let newPath;
+	if (pathPart.startsWith("/")) {
+		// root-relative links do not depend on the document location
+		const root = document.workspaceFolder;
+		if (!newTarget || !root) return undefined;
+
+		newPath = "/" + path.posix.relative(root.path, newTarget.path);
+	} else {
+		if (!newTarget && !documentMoved) return undefined;
+
+		newPath = path.posix.relative(path.posix.dirname(newDocumentUri.path), (newTarget ?? target).path);
+		if (pathPart.startsWith("./") && !newPath.startsWith(".")) {
+			newPath = "./" + newPath;
+		}
+	}
+
+	if (pathPart.endsWith("/") && !newPath.endsWith("/")) {
+		newPath += "/";
+	}
+
+	if (encodedCharRe.test(pathPart) || (!bracketMatch && /\s/.test(newPath))) {
+		newPath = encodeURI(newPath);
+	}
+
+	const newAddress = newPath + queryPart + fragmentPart;
+	return bracketMatch ? `<${newAddress}>` : newAddress;
+}
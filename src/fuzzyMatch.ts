@@ -0,0 +1,43 @@
+/**
+ * @returns function computing the length of the longest common subsequence of the query and the given string.
+ */
+export function createLcsMeasure(query: string) {
+
+	let lcsRow1 = Array<number>(query.length + 1);
+	let lcsRow2 = Array<number>(query.length + 1).fill(0);
+
+	return (s1: string) => {
+		const s2 = query;
+
+		if (s1.length * s2.length > 10**6) return 0;
+
+		lcsRow1.fill(0);
+		for (let i = 0; i < s1.length; i++) {
+			const c1 = s1[i];
+
+			for (let j = 1; j <= s2.length; j++) {
+				const c2 = s2[j - 1];
+
+				let ans = Math.max(lcsRow1[j], lcsRow2[j - 1]);
+				if (c2 === c1) {
+					ans = Math.max(ans, lcsRow1[j - 1] + 1);
+				}
+
+				lcsRow2[j] = ans;
+			}
+
+			// swap
+			[lcsRow1, lcsRow2] = [lcsRow2, lcsRow1];
+		}
+
+		return lcsRow1[s2.length];
+	};
+}
+
+/**
+ * @returns similarity of the strings from 0 to 1 based on the longest common subsequence.
+ */
+export function getSimilarity(a: string, b: string) {
+	if (a.length + b.length === 0) return 1;
+	return 2 * createLcsMeasure(a)(b) / (a.length + b.length);
+}
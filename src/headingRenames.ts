@@ -0,0 +1,116 @@
+import { URI } from 'vscode-uri';
+import { LinkSourceDocument, parseLink } from './LinkChecker';
+import { MarkdownHeading, MarkdownLink, TextRange } from './MarkdownParser';
+import { Slug, Slugifier } from './slugify';
+
+export interface SlugRename {
+	oldSlugged: Slug,
+	/** New slug without encoding */
+	newSlug: string,
+}
+
+export interface LinkAddressEdit {
+	range: TextRange,
+	newAddress: string,
+}
+
+/**
+ * Compares headings of the document before and after the heading rename.
+ * Renaming one heading might change the slugs of the others because of duplicate suffixes.
+ */
+export function getSlugRenames(oldHeadings: MarkdownHeading[], newHeadings: MarkdownHeading[]): SlugRename[] {
+
+	const oldTitled = oldHeadings.filter(h => !h.isHtmlAnchor);
+	const newTitled = newHeadings.filter(h => !h.isHtmlAnchor);
+
+	// the rename changed the document structure, can not match headings reliably
+	if (oldTitled.length !== newTitled.length) return [];
+
+	const renames: SlugRename[] = [];
+	for (let i = 0; i < oldTitled.length; i++) {
+		if (!oldTitled[i].slugged.equals(newTitled[i].slugged)) {
+			renames.push({ oldSlugged: oldTitled[i].slugged, newSlug: newTitled[i].slug });
+		}
+	}
+
+	return renames;
+}
+
+const angleBracketLinkRe = /^<(.*)>$/;
+const encodedCharRe = /%[0-9a-fA-F]{2}/;
+
+export interface FragmentLink {
+	link: MarkdownLink,
+	/** Link fragment slugged with the slugifier of the target document */
+	slugged: Slug,
+}
+
+/**
+ * @param targetUri document which headings are linked.
+ * @param slugifier slugifier of the target document.
+ * @returns links of the document that point to the fragments of the target document.
+ */
+export function getFragmentLinks(
+	links: MarkdownLink[],
+	document: LinkSourceDocument,
+	targetUri: URI,
+	slugifier: Slugifier
+): FragmentLink[] {
+
+	const targetUriStr = targetUri.toString();
+	const result: FragmentLink[] = [];
+
+	for (const link of links) {
+		const hashIndex = link.address.indexOf('#');
+		if (hashIndex === -1) continue;
+
+		let uri;
+		try {
+			uri = parseLink(document, link.address);
+		} catch {
+			continue;
+		}
+
+		if (!uri || !uri.fragment || uri.with({ fragment: "" }).toString() !== targetUriStr) continue;
+
+		result.push({ link, slugged: slugifier.fromFragment(uri.fragment) });
+	}
+
+	return result;
+}
+
+/**
+ * @param targetUri document with renamed headings.
+ * @param slugifier slugifier of the target document.
+ * @returns edits of the links of the document that point to the renamed headings of the target document.
+ */
+export function getRenamedFragmentLinkEdits(
+	links: MarkdownLink[],
+	document: LinkSourceDocument,
+	targetUri: URI,
+	renames: SlugRename[],
+	slugifier: Slugifier
+): LinkAddressEdit[] {
+
+	const edits: LinkAddressEdit[] = [];
+
+	for (const { link, slugged } of getFragmentLinks(links, document, targetUri, slugifier)) {
+		const rename = renames.find(r => r.oldSlugged.equals(slugged));
+		if (!rename || link.rawAddress !== undefined) continue;
+
+		const bracketMatch = link.address.match(angleBracketLinkRe);
+		const cleanAddress = bracketMatch ? bracketMatch[1] : link.address;
+		const hashIndex = cleanAddress.indexOf('#');
+
+		const oldFragment = cleanAddress.substring(hashIndex + 1);
+		const newFragment = encodedCharRe.test(oldFragment) ? encodeURI(rename.newSlug) : rename.newSlug;
+		const newAddress = cleanAddress.substring(0, hashIndex + 1) + newFragment;
+
+		edits.push({
+			range: link.addressRange,
+			newAddress: bracketMatch ? `<${newAddress}>` : newAddress,
+		});
+	}
+
+	return edits;
+}
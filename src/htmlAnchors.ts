@@ -0,0 +1,83 @@
+const htmlTagRe = /<([a-zA-Z][\w-]*)(\s[^>]*)?>/g;
+const anchorAttributeRe = /\s(id|name)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+/** GitHub prefixes ids of the rendered markdown, but links use ids without prefix */
+export const githubAnchorPrefix = "user-content-";
+
+/**
+ * Collects fragment targets of the HTML page: `id` attributes of all the elements
+ * and `name` attributes of `<a>` elements.
+ */
+export function collectHtmlAnchors(html: string): string[] {
+
+	const anchors = new Set<string>();
+
+	for (const tagMatch of html.matchAll(htmlTagRe)) {
+		const attributes = tagMatch[2];
+		if (!attributes) continue;
+
+		const isLink = tagMatch[1].toLowerCase() === "a";
+
+		for (const attributeMatch of attributes.matchAll(anchorAttributeRe)) {
+			if (attributeMatch[1].toLowerCase() === "name" && !isLink) continue;
+
+			const value = attributeMatch[2] ?? attributeMatch[3] ?? attributeMatch[4];
+			if (value) {
+				anchors.add(decodeHtmlEntities(value));
+			}
+		}
+	}
+
+	return [...anchors];
+}
+
+export function hasHtmlAnchor(anchors: string[], fragment: string) {
+	return anchors.includes(fragment) || anchors.includes(githubAnchorPrefix + fragment);
+}
+
+/**
+ * Anchors in the form they are used in links, without GitHub prefix.
+ */
+export function getLinkableHtmlAnchors(anchors: string[]) {
+	const result = new Set<string>();
+	for (const anchor of anchors) {
+		result.add(anchor.startsWith(githubAnchorPrefix) ? anchor.slice(githubAnchorPrefix.length) : anchor);
+	}
+
+	return [...result];
+}
+
+const uncheckableFragmentRes = [
+	// line anchors of code hosting services are usually created by scripts (GitHub, GitLab, Bitbucket)
+	/^L\d+(C\d+)?(-L?\d+(C\d+)?)?$/,
+	// text fragments are handled by browsers
+	/^:~:/,
+];
+
+/**
+ * Fragments that can not be validated by page anchors and considered valid.
+ */
+export function isUncheckableHtmlFragment(fragment: string) {
+	return uncheckableFragmentRes.some(re => re.test(fragment));
+}
+
+const htmlEntities: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: "\"",
+	apos: "'",
+};
+
+export function decodeHtmlEntities(value: string) {
+	return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+		if (code[0] === "#") {
+			const charCode = code[1] === "x" || code[1] === "X"
+				? parseInt(code.slice(2), 16)
+				: parseInt(code.slice(1), 10);
+			return charCode <= 0x10FFFF ? String.fromCodePoint(charCode) : "\uFFFD";
+		}
+
+		return htmlEntities[code.toLowerCase()] ?? entity;
+	});
+}
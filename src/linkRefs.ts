@@ -0,0 +1,104 @@
+import { MarkdownLinkDef } from './MarkdownParser';
+
+/**
+ * Link definition with its destination: the text after `[name]:` (address with optional title).
+ */
+export interface LinkDefDestination {
+	def: MarkdownLinkDef,
+	destination: string,
+}
+
+export interface OrganizedLinkDefs {
+	/** Definitions to keep sorted by name, duplicate names and duplicate destinations are removed */
+	sorted: LinkDefDestination[],
+	/** Link reference name renames caused by merging definitions with the same destination */
+	renames: Map<string, string>,
+}
+
+/**
+ * @param defText text of the whole definition range.
+ * @returns the text after `[name]:` of the link definition, line breaks before the title are replaced with spaces.
+ */
+export function getLinkDefDestination(def: MarkdownLinkDef, defText: string) {
+	const text = defText.substring(def.nameRange.end.character - def.range.start.character);
+	return text.substring(text.indexOf(':') + 1).trim().replace(/\s*\r?\n\s*/g, " ");
+}
+
+/**
+ * Removes duplicate definitions and sorts the rest by name.
+ * For the duplicate names, the first definition wins (as in CommonMark).
+ * For the same destinations, the first name is kept and the references to the other names have to be renamed.
+ */
+export function organizeLinkDefs(defs: LinkDefDestination[]): OrganizedLinkDefs {
+
+	const byName = new Map<string, LinkDefDestination>();
+	const byDestination = new Map<string, LinkDefDestination>();
+	const renames = new Map<string, string>();
+	// kept and merged names, the later definitions with these names are duplicates
+	const seenNames = new Set<string>();
+
+	for (const item of defs) {
+		if (seenNames.has(item.def.name)) {
+			continue;
+		}
+
+		seenNames.add(item.def.name);
+
+		const sameDestination = byDestination.get(item.destination);
+		if (sameDestination) {
+			renames.set(item.def.name, sameDestination.def.name);
+			continue;
+		}
+
+		byName.set(item.def.name, item);
+		byDestination.set(item.destination, item);
+	}
+
+	const sorted = [...byName.values()]
+		.sort((a, b) => a.def.name.localeCompare(b.def.name, undefined, { sensitivity: "base" }));
+
+	return { sorted, renames };
+}
+
+const angleBracketLinkRe = /^<(.*)>$/;
+
+/**
+ * Generates the link reference name from the link address: the last meaningful path segment or the host name.
+ * @param usedNames lower case names that are already taken, the generated name is added to the set.
+ */
+export function generateLinkRefName(address: string, usedNames: Set<string>) {
+
+	const cleanAddress = address.replace(angleBracketLinkRe, '$1');
+	const withoutScheme = cleanAddress.replace(/^[a-z][\w+.-]*:(\/\/)?/i, "");
+
+	let pathPart = withoutScheme.split(/[?#]/)[0];
+	const segments = pathPart.split('/').filter(s => s.length !== 0 && s !== "." && s !== "..");
+	pathPart = segments.length !== 0 ? segments[segments.length - 1] : "";
+
+	let base = safeDecodeURIComponent(pathPart)
+		.replace(/\.[a-z0-9]+$/i, "")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, "-")
+		.replace(/^-+|-+$/g, "");
+
+	if (base.length === 0) {
+		const fragment = cleanAddress.split('#')[1];
+		base = fragment ? safeDecodeURIComponent(fragment).toLowerCase() : "link";
+	}
+
+	let name = base;
+	for (let i = 1; usedNames.has(name); i++) {
+		name = `${base}-${i}`;
+	}
+
+	usedNames.add(name);
+	return name;
+}
+
+function safeDecodeURIComponent(value: string) {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
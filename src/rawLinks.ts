@@ -0,0 +1,85 @@
+import { decodeHtmlEntities } from './htmlAnchors';
+
+export interface RawLink {
+	/** Address to check, might differ from the text in the document (decoded entities, implied scheme) */
+	address: string,
+	/** Start of the address text in the scanned text */
+	start: number,
+	/** End of the address text in the scanned text */
+	end: number,
+}
+
+const htmlTagRe = /<[a-zA-Z][\w-]*(\s[^>]*)?>/g;
+const htmlCommentRe = /<!--.*?-->/g;
+const linkAttributeRe = /\s(href|src)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+// GFM autolink extension
+const bareUrlRe = /(?<![\w/@.])(?:https?:\/\/|www\.)[^\s<>]+/gi;
+const trailingPunctuationRe = /[?!.,:*_~'"]+$/;
+
+/**
+ * Collects link addresses that are not markdown links:
+ * `href` and `src` attributes of raw HTML tags and bare URLs (`https://...`, `www....`).
+ * @param text markdown text without code spans and markdown links.
+ */
+export function collectRawLinks(text: string): RawLink[] {
+
+	const links: RawLink[] = [];
+
+	// positions are preserved, so the bare URLs are searched in the text outside of the tags
+	let outsideTags = text.replace(htmlCommentRe, m => " ".repeat(m.length));
+
+	for (const tagMatch of outsideTags.matchAll(htmlTagRe)) {
+		const attributes = tagMatch[1];
+		if (attributes) {
+			const attributesStart = tagMatch.index! + tagMatch[0].indexOf(attributes);
+
+			for (const attributeMatch of attributes.matchAll(linkAttributeRe)) {
+				const value = attributeMatch[2] ?? attributeMatch[3] ?? attributeMatch[4];
+				if (!value || !value.trim()) continue;
+
+				const start = attributesStart + attributeMatch.index! + attributeMatch[0].length - value.length
+					- (attributeMatch[4] === undefined ? 1 : 0);
+
+				links.push({ address: decodeHtmlEntities(value), start, end: start + value.length });
+			}
+		}
+
+		outsideTags = outsideTags.substring(0, tagMatch.index!)
+			+ " ".repeat(tagMatch[0].length)
+			+ outsideTags.substring(tagMatch.index! + tagMatch[0].length);
+	}
+
+	for (const urlMatch of outsideTags.matchAll(bareUrlRe)) {
+		const url = trimBareUrl(urlMatch[0]);
+		if (url.length === 0 || !url.includes(".")) continue;
+
+		links.push({
+			address: /^www\./i.test(url) ? "http://" + url : url,
+			start: urlMatch.index!,
+			end: urlMatch.index! + url.length,
+		});
+	}
+
+	return links.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Removes the trailing punctuation and unbalanced closing parentheses like GFM does.
+ */
+function trimBareUrl(url: string) {
+	for (;;) {
+		const trimmed = url.replace(trailingPunctuationRe, "");
+		if (trimmed.endsWith(")") && count(trimmed, "(") < count(trimmed, ")")) {
+			url = trimmed.slice(0, -1);
+		} else if (trimmed.length !== url.length) {
+			url = trimmed;
+		} else {
+			return url;
+		}
+	}
+}
+
+function count(text: string, char: string) {
+	return text.split(char).length - 1;
+}
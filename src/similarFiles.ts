@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getSimilarity } from './fuzzyMatch';
+
+const maxScanDepth = 3;
+const maxScannedFiles = 5000;
+const minNameSimilarity = 0.6;
+
+/**
+ * Searches for the existing files that the broken link might have meant:
+ * files with similar names in the folder of the link target,
+ * in its sibling folders and in the subfolders of the nearest existing parent folder.
+ * @param rootPath folder to not search outside of (usually the workspace folder).
+ * @returns paths of the similar files, the most similar first.
+ */
+export async function findSimilarFiles(filePath: string, rootPath?: string, maxCount = 5): Promise<string[]> {
+
+	const targetDir = path.dirname(filePath);
+
+	let scanRoot = targetDir;
+	while (!await isDirectory(scanRoot)) {
+		const parent = path.dirname(scanRoot);
+		if (parent === scanRoot) return [];
+		scanRoot = parent;
+	}
+
+	if (rootPath && !isInside(scanRoot, rootPath)) return [];
+
+	// files are often moved between sibling folders
+	const parent = path.dirname(scanRoot);
+	if (parent !== scanRoot && (!rootPath || isInside(parent, rootPath))) {
+		scanRoot = parent;
+	}
+
+	const files: string[] = [];
+	await collectFiles(scanRoot, maxScanDepth, files);
+
+	const targetName = path.basename(filePath).toLowerCase();
+	const targetExt = path.extname(targetName);
+	const targetStem = targetName.substring(0, targetName.length - targetExt.length);
+	const targetRelativeDir = path.relative(scanRoot, targetDir).toLowerCase();
+
+	return files
+		.filter(f => f !== filePath)
+		.map(file => {
+			const name = path.basename(file).toLowerCase();
+			const ext = path.extname(name);
+			const stem = name.substring(0, name.length - ext.length);
+
+			// extension mismatches (like .md and .markdown) are common, so the extension has a small weight
+			const nameSimilarity = 0.8 * getSimilarity(stem, targetStem) + (ext === targetExt ? 0.2 : 0);
+			const dirSimilarity = getSimilarity(path.relative(scanRoot, path.dirname(file)).toLowerCase(), targetRelativeDir);
+
+			return { file, nameSimilarity, score: 0.8 * nameSimilarity + 0.2 * dirSimilarity };
+		})
+		.filter(c => c.nameSimilarity >= minNameSimilarity)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, maxCount)
+		.map(c => c.file);
+}
+
+async function collectFiles(dir: string, depth: number, files: string[]) {
+	let entries;
+	try {
+		entries = await fs.promises.readdir(dir, { withFileTypes: true });
+	} catch {
+		return;
+	}
+
+	for (const entry of entries) {
+		if (files.length >= maxScannedFiles) return;
+
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isFile()) {
+			files.push(entryPath);
+		} else if (entry.isDirectory() && depth > 1 && !entry.name.startsWith(".") && entry.name !== "node_modules") {
+			await collectFiles(entryPath, depth - 1, files);
+		}
+	}
+}
+
+async function isDirectory(dirPath: string) {
+	try {
+		return (await fs.promises.stat(dirPath)).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+function isInside(filePath: string, rootPath: string) {
+	const relative = path.relative(rootPath, filePath);
+	return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
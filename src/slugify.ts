@@ -1,3 +1,7 @@
+import minimatch from 'minimatch';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+
 export class Slug {
 	public constructor(
 		public readonly value: string
@@ -12,6 +16,8 @@ export interface Slugifier {
 	fromHeading(heading: string): Slug;
 	fromFragment(fragment: string): Slug;
 	fromHeadingNoEncoding(heading: string): string;
+	/** Suffix appended by the renderer to the slug of the n-th duplicate heading (starting from 1) */
+	duplicateSuffix(occurrence: number): string;
 }
 
 export const githubSlugifier: Slugifier = new class implements Slugifier {
@@ -36,4 +42,153 @@ export const githubSlugifier: Slugifier = new class implements Slugifier {
 			.replace(/\-+$/, '') // Remove trailing -
 		;
 	}
+
+	duplicateSuffix(occurrence: number) {
+		return `-${occurrence}`;
+	}
+};
+
+/**
+ * Slugifier that produces the slug without encoding and compares URI encoded slugs.
+ */
+class SimpleSlugifier implements Slugifier {
+	constructor(
+		private readonly slugify: (heading: string) => string,
+		private readonly duplicateSeparator = "-"
+	) {
+	}
+
+	fromHeading(heading: string): Slug {
+		return new Slug(encodeURI(this.slugify(heading)));
+	}
+
+	fromFragment(fragment: string): Slug {
+		return new Slug(encodeURI(fragment));
+	}
+
+	fromHeadingNoEncoding(heading: string) {
+		return this.slugify(heading);
+	}
+
+	duplicateSuffix(occurrence: number) {
+		return this.duplicateSeparator + occurrence;
+	}
+}
+
+// https://docs.gitlab.com/ee/user/markdown.html#heading-ids-and-links
+export const gitlabSlugifier: Slugifier = new SimpleSlugifier(heading => heading.trim()
+	.toLowerCase()
+	.replace(/[^\p{L}\p{M}\p{N}\p{Pc}\- ]/gu, '') // Remove non-word text
+	.replace(/ /g, '-')
+	.replace(/\-{2,}/g, '-')
+);
+
+// Azure DevOps wiki keeps the punctuation (URI encoded in the links)
+export const azureDevOpsSlugifier: Slugifier = new SimpleSlugifier(heading => heading.trim()
+	.toLowerCase()
+	.replace(/\s+/g, '-')
+);
+
+export const bitbucketSlugifier: Slugifier = new SimpleSlugifier(heading => "markdown-header-" + heading.trim()
+	.toLowerCase()
+	.replace(/[^\w\s\-]/g, '')
+	.replace(/\s+/g, '-'),
+	"_"
+);
+
+// default `slugify` of Python-Markdown toc extension
+export const mkdocsSlugifier: Slugifier = new SimpleSlugifier(heading => heading
+	.normalize("NFKD")
+	.replace(/[^\x00-\x7F]/g, '') // Leave only ASCII
+	.replace(/[^\w\s\-]/g, '')
+	.trim()
+	.toLowerCase()
+	.replace(/[\-\s]+/g, '-'),
+	"_"
+);
+
+// https://pandoc.org/MANUAL.html#extension-auto_identifiers
+export const pandocSlugifier: Slugifier = new SimpleSlugifier(heading => heading.trim()
+	.toLowerCase()
+	.replace(/[^\p{L}\p{N}_\-.\s]/gu, '')
+	.replace(/\s+/g, '-')
+	.replace(/^[^\p{L}]+/u, '') // Remove everything up to the first letter
+	|| "section"
+);
+
+/**
+ * Assigns unique slugs to the headings of the document in the order of appearance,
+ * the same way renderers do for duplicate headings (`#example`, `#example-1`, ...).
+ */
+export class UniqueSlugger {
+
+	private readonly used = new Set<string>();
+
+	constructor(
+		private readonly slugifier: Slugifier
+	) {
+	}
+
+	/**
+	 * @returns unique slug without encoding.
+	 */
+	slug(heading: string) {
+		const base = this.slugifier.fromHeadingNoEncoding(heading);
+
+		let slug = base;
+		for (let occurrence = 1; this.used.has(slug); occurrence++) {
+			slug = base + this.slugifier.duplicateSuffix(occurrence);
+		}
+
+		this.used.add(slug);
+		return slug;
+	}
+
+	/**
+	 * Reserves explicitly specified slug (like custom heading id).
+	 */
+	reserve(slug: string) {
+		this.used.add(slug);
+		return slug;
+	}
+}
+
+export type SlugProfile = "github" | "gitlab" | "azureDevOps" | "bitbucket" | "mkdocs" | "pandoc";
+
+export const slugifiers: Record<SlugProfile, Slugifier> = {
+	github: githubSlugifier,
+	gitlab: gitlabSlugifier,
+	azureDevOps: azureDevOpsSlugifier,
+	bitbucket: bitbucketSlugifier,
+	mkdocs: mkdocsSlugifier,
+	pandoc: pandocSlugifier,
 };
+
+export interface SlugOptions {
+	slugProfile?: SlugProfile,
+	/** Slug profiles for the documents matching glob patterns relative to the workspace folder */
+	slugProfileOverrides?: Partial<Record<string, SlugProfile>>,
+}
+
+/**
+ * @returns slugifier of the renderer that generates heading anchors for the document.
+ */
+export function selectSlugifier(options: SlugOptions, documentUri: URI, workspaceFolder: URI | undefined): Slugifier {
+
+	let profile = options.slugProfile;
+
+	if (options.slugProfileOverrides) {
+		const relativePath = workspaceFolder
+			? path.posix.relative(workspaceFolder.path, documentUri.path)
+			: documentUri.path;
+
+		for (const [pattern, patternProfile] of Object.entries(options.slugProfileOverrides)) {
+			if (patternProfile && minimatch(relativePath, pattern, { dot: true })) {
+				profile = patternProfile;
+				break;
+			}
+		}
+	}
+
+	return (profile && slugifiers[profile]) || githubSlugifier;
+}
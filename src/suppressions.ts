@@ -0,0 +1,51 @@
+import { MarkdownComment } from './MarkdownParser';
+
+export const disableNextLineDirective = "md-link-checker-disable-next-line";
+export const disableDirective = "md-link-checker-disable";
+export const enableDirective = "md-link-checker-enable";
+
+/**
+ * Lines of the document where link diagnostics are suppressed with comments:
+ * `<!-- md-link-checker-disable-next-line -->` suppresses the line right after the comment,
+ * `<!-- md-link-checker-disable -->` suppresses all the lines until `<!-- md-link-checker-enable -->`
+ * (or until the end of the document).
+ * Any text after the directive (like a reason) is allowed.
+ */
+export class LinkSuppressions {
+
+	private readonly lines = new Set<number>();
+	private readonly blocks: Array<{ start: number, end: number }> = [];
+
+	constructor(comments: MarkdownComment[]) {
+
+		let blockStart: number | undefined;
+		for (const comment of comments) {
+			if (hasDirective(comment, disableNextLineDirective)) {
+				this.lines.add(comment.range.end.line + 1);
+			} else if (hasDirective(comment, disableDirective)) {
+				blockStart ??= comment.range.end.line;
+			} else if (hasDirective(comment, enableDirective) && blockStart !== undefined) {
+				this.blocks.push({ start: blockStart, end: comment.range.start.line });
+				blockStart = undefined;
+			}
+		}
+
+		if (blockStart !== undefined) {
+			this.blocks.push({ start: blockStart, end: Infinity });
+		}
+	}
+
+	isSuppressed(line: number) {
+		return this.lines.has(line)
+			|| this.blocks.some(b => b.start < line && line < b.end);
+	}
+}
+
+function hasDirective(comment: MarkdownComment, directive: string) {
+	return comment.text === directive
+		|| comment.text.startsWith(directive) && /\s/.test(comment.text[directive.length]);
+}
+
+export function formatSuppressionComment(directive: string) {
+	return `<!-- ${directive} -->`;
+}
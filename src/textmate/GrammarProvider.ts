@@ -2,7 +2,6 @@ import * as tm from 'vscode-textmate';
 import * as oniguruma from 'vscode-oniguruma';
 import * as path from 'path';
 import * as fs from 'fs';
-import { getExtensionsGrammars } from './getExtensionsGrammars';
 
 
 export interface GrammarDescriptor {
@@ -12,13 +11,20 @@ export interface GrammarDescriptor {
 	injectTo?: string[]
 }
 
+export interface ExtensionsGrammarsFilter {
+	extensionId?: string,
+	scopeName?: string,
+	language?: string,
+}
+
 export interface GrammarProviderOptions {
 	grammars?: GrammarDescriptor[],
-	extensionsFilter?: {
-		extensionId?: string,
-		scopeName?: string,
-		language?: string,
-	}
+	extensionsFilter?: ExtensionsGrammarsFilter,
+	/**
+	 * Required to use `extensionsFilter`, see `getExtensionsGrammars`.
+	 * Injected to keep the provider independent of the `vscode` module.
+	 */
+	extensionsGrammarsProvider?: (filter: ExtensionsGrammarsFilter) => GrammarDescriptor[],
 }
 
 export class GrammarProvider {
@@ -39,12 +45,12 @@ export class GrammarProvider {
 				}
 			}
 
-			if (options.extensionsFilter) {
+			if (options.extensionsFilter && options.extensionsGrammarsProvider) {
 				if (options.extensionsFilter.scopeName && scopeName && options.extensionsFilter.scopeName !== scopeName) {
 
 				} else {
 					const filter = { ...options.extensionsFilter, scopeName };
-					result.push(... getExtensionsGrammars(filter));
+					result.push(... options.extensionsGrammarsProvider(filter));
 				}
 			}
 
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { ExtensionsGrammarsFilter } from './GrammarProvider';
 
 export interface ExtensionGrammar {
 	extensionId: string,
@@ -24,7 +25,7 @@ interface ExtensionPackage {
 	};
 }
 
-export function getExtensionsGrammars(filter: { extensionId?: string; language?: string; scopeName?: string; }) {
+export function getExtensionsGrammars(filter: ExtensionsGrammarsFilter) {
 
 	let extensions;
 
@@ -0,0 +1,53 @@
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { LinkDiagnostic, LinkDiagnosticSeverity } from './LinkDiagnostics';
+import { TextRange } from './MarkdownParser';
+
+export const diagnosticSource = "md-link-checker";
+
+export function toVscodeRange(range: TextRange) {
+    return new vscode.Range(
+        range.start.line,
+        range.start.character,
+        range.end.line,
+        range.end.character
+    );
+}
+
+export function toVscodeUri(uri: URI): vscode.Uri {
+    return uri instanceof vscode.Uri ? uri : vscode.Uri.from(uri);
+}
+
+export function toVscodeDiagnostic(diagnostic: LinkDiagnostic, documentUri: vscode.Uri) {
+    const d = new vscode.Diagnostic(
+        toVscodeRange(diagnostic.range),
+        diagnostic.message,
+        toVscodeSeverity(diagnostic.severity)
+    );
+
+    d.source = diagnosticSource;
+
+    if (diagnostic.unnecessary) {
+        d.tags = [vscode.DiagnosticTag.Unnecessary];
+    }
+
+    if (diagnostic.related) {
+        d.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(documentUri, toVscodeRange(diagnostic.related.range)),
+                diagnostic.related.message
+            )
+        ];
+    }
+
+    return d;
+}
+
+function toVscodeSeverity(severity: LinkDiagnosticSeverity) {
+    switch (severity) {
+        case "error": return vscode.DiagnosticSeverity.Error;
+        case "warning": return vscode.DiagnosticSeverity.Warning;
+        case "information": return vscode.DiagnosticSeverity.Information;
+        case "hint": return vscode.DiagnosticSeverity.Hint;
+    }
+}
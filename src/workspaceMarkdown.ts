@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { Environment } from './Environment';
+import { DocumentStore } from './DocumentStore';
+import { getWorkspaceFolder } from './DocumentState';
+import { LinkSourceDocument } from './LinkChecker';
+import { MarkdownHeading, MarkdownLink } from './MarkdownParser';
+
+export const markdownFilesGlob = "**/*.{md,markdown}";
+
+export function findWorkspaceMarkdownFiles(env: Environment, token?: vscode.CancellationToken) {
+    const exclude = env.configuration.workspaceCheckExclude || undefined;
+    return vscode.workspace.findFiles(markdownFilesGlob, exclude, undefined, token);
+}
+
+export function findOpenedDocument(uri: vscode.Uri) {
+    const uriStr = uri.toString();
+    return vscode.workspace.textDocuments.find(d => d.uri.toString() === uriStr);
+}
+
+/**
+ * @returns opened document (it might be changed and not saved yet) or the file content.
+ */
+export async function readMarkdownDocument(uri: vscode.Uri): Promise<vscode.TextDocument | string> {
+    return findOpenedDocument(uri)
+        ?? Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+}
+
+/**
+ * @returns headings of the opened (parsed) document or of the markdown file,
+ * undefined if the file can not be read.
+ */
+export async function readDocumentHeadings(
+    env: Environment,
+    documents: DocumentStore,
+    uri: vscode.Uri
+): Promise<MarkdownHeading[] | undefined> {
+
+    const parsed = documents.tryGetParsedDocument(uri);
+    if (parsed) return parsed.headings;
+
+    let content;
+    try {
+        content = await readMarkdownDocument(uri);
+    } catch {
+        return undefined;
+    }
+
+    return env.parser.parseDocument(content, { parseHeadings: true, slugifier: env.getSlugifier(uri) }).headings;
+}
+
+/**
+ * Parses the links of all the markdown files of the workspace.
+ * @param includeUri document to process even if it is outside of the workspace or excluded.
+ */
+export async function forEachWorkspaceDocumentLinks(
+    env: Environment,
+    includeUri: vscode.Uri,
+    handler: (document: LinkSourceDocument, links: MarkdownLink[]) => void,
+    token?: vscode.CancellationToken
+) {
+    const uris = await findWorkspaceMarkdownFiles(env, token);
+
+    const includeUriStr = includeUri.toString();
+    if (!uris.some(u => u.toString() === includeUriStr)) {
+        uris.push(includeUri);
+    }
+
+    for (const uri of uris) {
+        if (token?.isCancellationRequested) return;
+
+        try {
+            const content = await readMarkdownDocument(uri);
+            const { links } = env.parser.parseDocument(content, { parseLinks: true });
+
+            const document: LinkSourceDocument = {
+                uri,
+                workspaceFolder: getWorkspaceFolder(uri),
+                tryGetParsedDocument: () => undefined,
+            };
+
+            handler(document, links!);
+        } catch (err) {
+            console.error(`workspace document links processing failed. doc: ${uri}`, err);
+        }
+    }
+}